@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import type { GenerationSettings, SafetyCategory, SafetyThreshold, SettingsProfile, SettingsProfileRef } from '../types';
+import { loadSettingsProfiles, saveSettingsProfiles } from '../services/settings';
+
+const SAFETY_CATEGORIES: { category: SafetyCategory; label: string }[] = [
+  { category: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+  { category: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+];
+
+const SAFETY_THRESHOLDS: { threshold: SafetyThreshold; label: string }[] = [
+  { threshold: 'BLOCK_LOW_AND_ABOVE', label: 'Block most' },
+  { threshold: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block some' },
+  { threshold: 'BLOCK_ONLY_HIGH', label: 'Block few' },
+  { threshold: 'BLOCK_NONE', label: 'Block none' },
+  { threshold: 'OFF', label: 'Off' },
+];
+
+const SAMPLING_FIELDS: { key: 'temperature' | 'topP' | 'topK'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+  { key: 'topK', label: 'Top K', min: 1, max: 100, step: 1 },
+];
+
+type AdvancedSettingsProps = {
+  models: string[];
+  settings: GenerationSettings;
+  profile: SettingsProfileRef | null;
+  onChange: (settings: GenerationSettings, profile: SettingsProfileRef | null) => void;
+};
+
+/**
+ * Collapsible model, sampling and safety controls with named profiles. Any
+ * edit detaches the settings from their profile until they are saved again.
+ */
+const AdvancedSettings = ({ models, settings, profile, onChange }: AdvancedSettingsProps) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [profiles, setProfiles] = useState<SettingsProfile[]>(loadSettingsProfiles);
+
+  const activeProfile = profiles.find(candidate => candidate.id === profile?.id);
+
+  const updateProfiles = (next: SettingsProfile[]) => {
+    setProfiles(next);
+    saveSettingsProfiles(next);
+  };
+
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...settings, ...changes }, null);
+
+  const handleSamplingChange = (key: 'temperature' | 'topP' | 'topK', value: string) => {
+    update({ [key]: value === '' ? undefined : Number(value) });
+  };
+
+  const handleSafetyChange = (category: SafetyCategory, value: string) => {
+    const safety = { ...settings.safety };
+    if (value) safety[category] = value as SafetyThreshold;
+    else delete safety[category];
+    update({ safety });
+  };
+
+  const handleSelectProfile = (id: string) => {
+    const selected = profiles.find(candidate => candidate.id === id);
+    if (selected) onChange(selected.settings, { id: selected.id, name: selected.name });
+  };
+
+  const handleSaveProfile = () => {
+    const name = window.prompt('Name this settings profile:', activeProfile?.name ?? '');
+    if (!name?.trim()) return;
+    const saved: SettingsProfile = { id: `profile-${Date.now()}`, name: name.trim(), settings, createdAt: Date.now() };
+    updateProfiles([...profiles, saved]);
+    onChange(settings, { id: saved.id, name: saved.name });
+  };
+
+  const handleDeleteProfile = () => {
+    if (!activeProfile) return;
+    if (!window.confirm(`Delete the settings profile "${activeProfile.name}"?`)) return;
+    updateProfiles(profiles.filter(candidate => candidate.id !== activeProfile.id));
+    onChange(settings, null);
+  };
+
+  return (
+    <div className="form-group advanced-settings">
+      <button
+        type="button"
+        className="form-label advanced-toggle"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+      >
+        <span className="form-label-icon">⚙️</span>
+        Advanced
+        <span className="advanced-summary">{profile?.name ?? 'Custom settings'}</span>
+        <span>{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="advanced-body">
+          <div className="prompt-library-row">
+            <select
+              className="input-field"
+              value={activeProfile?.id ?? ''}
+              onChange={(e) => handleSelectProfile(e.target.value)}
+              aria-label="Settings profile"
+            >
+              <option value="" disabled>Custom settings</option>
+              {profiles.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+              ))}
+            </select>
+            <button type="button" className="chip-btn" onClick={handleSaveProfile} title="Save these settings as a named profile">
+              💾 Save
+            </button>
+            {activeProfile && (
+              <button type="button" className="chip-btn" onClick={handleDeleteProfile} title="Delete this profile">
+                🗑️
+              </button>
+            )}
+          </div>
+
+          <label className="advanced-field">
+            <span>Model</span>
+            <select
+              className="input-field"
+              value={models.includes(settings.model) ? settings.model : ''}
+              onChange={(e) => update({ model: e.target.value })}
+            >
+              <option value="">Default ({models[0]})</option>
+              {models.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="advanced-grid">
+            {SAMPLING_FIELDS.map(({ key, label, min, max, step }) => (
+              <label key={key} className="advanced-field">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  className="input-field"
+                  min={min}
+                  max={max}
+                  step={step}
+                  placeholder="Default"
+                  value={settings[key] ?? ''}
+                  onChange={(e) => handleSamplingChange(key, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="advanced-grid">
+            {SAFETY_CATEGORIES.map(({ category, label }) => (
+              <label key={category} className="advanced-field">
+                <span>{label}</span>
+                <select
+                  className="input-field"
+                  value={settings.safety[category] ?? ''}
+                  onChange={(e) => handleSafetyChange(category, e.target.value)}
+                >
+                  <option value="">Model default</option>
+                  {SAFETY_THRESHOLDS.map(({ threshold, label: thresholdLabel }) => (
+                    <option key={threshold} value={threshold}>{thresholdLabel}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedSettings;
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+type CompareMode = 'split' | 'side-by-side' | 'onion';
+
+const MODES: { value: CompareMode; label: string }[] = [
+  { value: 'split', label: 'Split' },
+  { value: 'side-by-side', label: 'Side by Side' },
+  { value: 'onion', label: 'Onion Skin' },
+];
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+type CompareViewerProps = {
+  beforeUrls: string[];
+  afterUrl: string;
+};
+
+/** Before/after viewer with split, side-by-side and onion-skin modes; zoom and pan are shared by every pane. */
+const CompareViewer = ({ beforeUrls, afterUrl }: CompareViewerProps) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [baseIndex, setBaseIndex] = useState<number>(0);
+  const [split, setSplit] = useState<number>(50);
+  const [opacity, setOpacity] = useState<number>(50);
+  const [view, setView] = useState<{ zoom: number; x: number; y: number }>({ zoom: 1, x: 0, y: 0 });
+  const [aspect, setAspect] = useState<number | null>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'split'; x: number; y: number } | null>(null);
+
+  const beforeUrl = beforeUrls[Math.min(baseIndex, beforeUrls.length - 1)];
+
+  // Zooms while keeping the point at (offsetX, offsetY), measured from the stage centre, fixed on screen.
+  const zoomAt = (factor: number, offsetX = 0, offsetY = 0) => {
+    setView(prev => {
+      const zoom = clamp(prev.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+      if (zoom === MIN_ZOOM) return { zoom, x: 0, y: 0 };
+      const ratio = zoom / prev.zoom;
+      return { zoom, x: offsetX - (offsetX - prev.x) * ratio, y: offsetY - (offsetY - prev.y) * ratio };
+    });
+  };
+
+  // React registers wheel listeners as passive, so page scrolling can only be blocked from a native listener.
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    const handleWheel = (e: WheelEvent) => {
+      const stage = (e.target as HTMLElement).closest('.compare-stage');
+      if (!stage) return;
+      e.preventDefault();
+      const rect = stage.getBoundingClientRect();
+      zoomAt(
+        e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+        e.clientX - rect.left - rect.width / 2,
+        e.clientY - rect.top - rect.height / 2,
+      );
+    };
+    viewer.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewer.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSplit(clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100));
+  };
+
+  // In split mode at 1x, dragging anywhere moves the divider; otherwise dragging pans.
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const onDivider = Boolean((e.target as HTMLElement).closest('.compare-divider'));
+    const kind = mode === 'split' && (onDivider || view.zoom === MIN_ZOOM) ? 'split' : 'pan';
+    if (kind === 'pan' && view.zoom === MIN_ZOOM) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, x: e.clientX, y: e.clientY };
+    if (kind === 'split') moveSplit(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'split') {
+      moveSplit(e);
+      return;
+    }
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+    setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const transform = `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`;
+
+  const renderLayer = (src: string, alt: string, style?: React.CSSProperties) => (
+    <div className="compare-layer" style={style}>
+      <img
+        src={src}
+        alt={alt}
+        style={{ transform }}
+        draggable={false}
+        onLoad={src === afterUrl ? (e) => setAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight) : undefined}
+      />
+    </div>
+  );
+
+  const renderStage = (children: React.ReactNode, key?: string) => (
+    <div
+      key={key}
+      className={`compare-stage ${view.zoom > MIN_ZOOM ? 'zoomed' : ''}`}
+      style={{ aspectRatio: aspect ?? undefined }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="compare-viewer" ref={viewerRef}>
+      <div className="compare-toolbar">
+        <div className="aspect-ratio-selector compare-modes">
+          {MODES.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              className={`aspect-ratio-btn ${mode === option.value ? 'active' : ''}`}
+              onClick={() => setMode(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {beforeUrls.length > 1 && (
+          <div className="compare-bases" role="group" aria-label="Base image to compare against">
+            {beforeUrls.map((url, index) => (
+              <button
+                key={url}
+                type="button"
+                className={`compare-base-btn ${index === baseIndex ? 'active' : ''}`}
+                onClick={() => setBaseIndex(index)}
+                title={`Compare with base image ${index + 1}`}
+              >
+                <img src={url} alt={`Base ${index + 1}`} />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {mode === 'onion' && (
+          <label className="checkbox-label">
+            After
+            <input type="range" min={0} max={100} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} />
+            {opacity}%
+          </label>
+        )}
+
+        <div className="compare-zoom">
+          <button type="button" className="chip-btn" onClick={() => zoomAt(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM} aria-label="Zoom out">−</button>
+          <span>{Math.round(view.zoom * 100)}%</span>
+          <button type="button" className="chip-btn" onClick={() => zoomAt(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} aria-label="Zoom in">+</button>
+          <button type="button" className="chip-btn" onClick={() => setView({ zoom: 1, x: 0, y: 0 })} disabled={view.zoom === MIN_ZOOM}>Reset</button>
+        </div>
+      </div>
+
+      {mode === 'split' && renderStage(
+        <>
+          {renderLayer(afterUrl, 'After')}
+          {renderLayer(beforeUrl, 'Before', { clipPath: `inset(0 ${100 - split}% 0 0)` })}
+          <div className="compare-divider" style={{ left: `${split}%` }}><span>⇔</span></div>
+          <span className="compare-label compare-label-before">Before</span>
+          <span className="compare-label compare-label-after">After</span>
+        </>,
+      )}
+
+      {mode === 'side-by-side' && (
+        <div className="compare-side-by-side">
+          {renderStage(
+            <>
+              {renderLayer(beforeUrl, 'Before')}
+              <span className="compare-label compare-label-before">Before</span>
+            </>,
+            'before',
+          )}
+          {renderStage(
+            <>
+              {renderLayer(afterUrl, 'After')}
+              <span className="compare-label compare-label-after">After</span>
+            </>,
+            'after',
+          )}
+        </div>
+      )}
+
+      {mode === 'onion' && renderStage(
+        <>
+          {renderLayer(beforeUrl, 'Before')}
+          {renderLayer(afterUrl, 'After', { opacity: opacity / 100 })}
+        </>,
+      )}
+    </div>
+  );
+};
+
+export default CompareViewer;
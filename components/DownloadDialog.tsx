@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import type { DownloadFormat, DownloadSettings, ImageMetadata } from '../types';
+import { getDownloadSettings } from '../services/settings';
+import { FILENAME_TOKENS, renderFilename, resolveOutputSize } from '../utils/imageExport';
+import { extensionForMimeType } from '../utils/imageMetadata';
+
+const FORMATS: { value: DownloadFormat; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+type DownloadDialogProps = {
+  imageUrl: string;
+  metadata?: ImageMetadata;
+  onDownload: (settings: DownloadSettings) => Promise<void>;
+  onClose: () => void;
+};
+
+/** Format, quality, size and filename options for one download; starts from the last-used settings. */
+const DownloadDialog = ({ imageUrl, metadata, onDownload, onClose }: DownloadDialogProps) => {
+  const [settings, setSettings] = useState<DownloadSettings>(getDownloadSettings);
+  const [source, setSource] = useState<{ width: number; height: number; type: string } | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [dialogError, setDialogError] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(imageUrl)
+      .then(response => response.blob())
+      .then(async blob => {
+        const bitmap = await createImageBitmap(blob);
+        if (!cancelled) setSource({ width: bitmap.width, height: bitmap.height, type: blob.type });
+        bitmap.close();
+      })
+      .catch(err => console.error("Failed to read image for download:", err));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const update = (changes: Partial<DownloadSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const outputType = settings.format === 'original' ? source?.type ?? 'image/png' : settings.format;
+  const outputSize = source ? resolveOutputSize(source.width, source.height, settings) : null;
+  const usesQuality = outputType === 'image/jpeg' || outputType === 'image/webp';
+
+  const handleDownload = async () => {
+    setIsSaving(true);
+    setDialogError('');
+    try {
+      await onDownload(settings);
+    } catch (err) {
+      console.error("Failed to download image:", err);
+      setDialogError(err instanceof Error ? err.message : 'Could not prepare the image for download.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content download-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3 className="modal-title">Download</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close download options">✕</button>
+        </div>
+
+        <div className="download-options">
+          <div className="form-group">
+            <label className="form-label">Format</label>
+            <div className="aspect-ratio-selector">
+              {FORMATS.map(format => (
+                <button
+                  key={format.value}
+                  type="button"
+                  className={`aspect-ratio-btn ${settings.format === format.value ? 'active' : ''}`}
+                  onClick={() => update({ format: format.value })}
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {usesQuality && (
+            <label className="checkbox-label" htmlFor="download-quality">
+              Quality
+              <input
+                id="download-quality"
+                type="range"
+                min={1}
+                max={100}
+                value={settings.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+              />
+              {settings.quality}
+            </label>
+          )}
+
+          <div className="form-group">
+            <label className="form-label">Size</label>
+            <div className="download-size-row">
+              <select
+                className="input-field"
+                value={settings.size}
+                onChange={(e) => update({ size: e.target.value as DownloadSettings['size'] })}
+                aria-label="Resize mode"
+              >
+                <option value="original">Original size</option>
+                <option value="long-edge">Long edge (px)</option>
+                <option value="scale">Scale (%)</option>
+              </select>
+              {settings.size === 'long-edge' && (
+                <input
+                  type="number"
+                  min={16}
+                  max={8192}
+                  className="input-field"
+                  value={settings.longEdge}
+                  onChange={(e) => update({ longEdge: Math.max(16, Number(e.target.value) || 0) })}
+                  aria-label="Long edge in pixels"
+                />
+              )}
+              {settings.size === 'scale' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={800}
+                  className="input-field"
+                  value={settings.scale}
+                  onChange={(e) => update({ scale: Math.max(1, Number(e.target.value) || 0) })}
+                  aria-label="Scale in percent"
+                />
+              )}
+            </div>
+            {source && outputSize && (
+              <p className="download-hint">
+                {source.width}×{source.height} → {outputSize.width}×{outputSize.height}
+              </p>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="download-filename">Filename</label>
+            <input
+              id="download-filename"
+              type="text"
+              className="input-field"
+              value={settings.filenameTemplate}
+              onChange={(e) => update({ filenameTemplate: e.target.value })}
+            />
+            <p className="download-hint">
+              {renderFilename(settings.filenameTemplate, metadata, extensionForMimeType(outputType))}
+              <br />
+              Tokens: {FILENAME_TOKENS.join(' ')}
+            </p>
+          </div>
+
+          {dialogError && <p className="download-error">{dialogError}</p>}
+        </div>
+
+        <div className="modal-footer">
+          <button type="button" className="btn btn-secondary" onClick={onClose}>Cancel</button>
+          <button type="button" className="btn btn-success" onClick={handleDownload} disabled={isSaving || !source}>
+            <span>💾</span> {isSaving ? 'Preparing...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DownloadDialog;
@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { EditSession } from '../types';
+import type { ProviderProgress } from '../services/providers';
+
+type EditSessionPanelProps = {
+  session: EditSession | null;
+  sessions: EditSession[];
+  isLoading: boolean;
+  progress: ProviderProgress;
+  onSend: (instruction: string) => Promise<boolean>;
+  onCancel: () => void;
+  onOpenSession: (id: string) => void;
+  onCloseSession: () => void;
+};
+
+/** Chat-style transcript of an editing session, or the list of saved sessions when none is open. */
+const EditSessionPanel = ({
+  session,
+  sessions,
+  isLoading,
+  progress,
+  onSend,
+  onCancel,
+  onOpenSession,
+  onCloseSession,
+}: EditSessionPanelProps) => {
+  const [instruction, setInstruction] = useState<string>('');
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  const turnImageUrls = useMemo(
+    () => session?.turns.map(turn => turn.images.map(image => URL.createObjectURL(image))) ?? [],
+    [session?.turns],
+  );
+
+  useEffect(() => () => turnImageUrls.flat().forEach(url => URL.revokeObjectURL(url)), [turnImageUrls]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [session?.turns.length, isLoading]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const text = instruction.trim();
+    if (!text || isLoading) return;
+    if (await onSend(text)) setInstruction('');
+  };
+
+  if (!session) {
+    return (
+      <div className="card history-panel">
+        {sessions.length > 0 ? (
+          <>
+            <div className="history-header">
+              <div className="history-title">
+                <span>💬</span>
+                Editing Sessions
+                <span className="history-count">{sessions.length}</span>
+              </div>
+            </div>
+            <div className="session-list">
+              {sessions.map(saved => (
+                <button key={saved.id} type="button" className="session-list-item" onClick={() => onOpenSession(saved.id)}>
+                  <strong>{saved.title}</strong>
+                  <span>
+                    {saved.turns.filter(turn => turn.role === 'user').length} turns · {new Date(saved.updatedAt).toLocaleString()}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="empty-history">
+            <div className="empty-history-icon">💬</div>
+            <div className="empty-history-text">
+              No editing sessions yet. Use "Continue in Chat" on a generated image to start one.
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="card session-panel">
+      <div className="history-header">
+        <div className="history-title">
+          <span>💬</span>
+          {session.title}
+        </div>
+        <button className="btn btn-secondary" onClick={onCloseSession} style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem'}}>
+          All Sessions
+        </button>
+      </div>
+
+      <div className="session-transcript">
+        {session.turns.map((turn, index) => (
+          <div key={index} className={`session-turn session-turn-${turn.role}`}>
+            <div className="session-turn-role">{turn.role === 'user' ? 'You' : 'AI'}</div>
+            {turnImageUrls[index]?.length > 0 && (
+              <div className="session-turn-images">
+                {turnImageUrls[index].map((src, imageIndex) => (
+                  <img key={src} src={src} alt={`Turn ${index + 1} image ${imageIndex + 1}`} />
+                ))}
+              </div>
+            )}
+            {turn.text && <p>{turn.text}</p>}
+          </div>
+        ))}
+        {isLoading && (
+          <div className="session-turn session-turn-model">
+            <div className="session-turn-role">AI</div>
+            <p>{progress.text || progress.status || 'Thinking...'}</p>
+            <button type="button" className="btn btn-danger" onClick={onCancel}>
+              <span>⏹️</span> Cancel
+            </button>
+          </div>
+        )}
+        <div ref={transcriptEndRef} />
+      </div>
+
+      <form className="session-input" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          className="input-field"
+          placeholder="Describe the next change (e.g. 'make the sky darker')"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          disabled={isLoading}
+        />
+        <button type="submit" className="btn btn-primary" disabled={isLoading || !instruction.trim()}>
+          <span className="btn-icon">➤</span>
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default EditSessionPanel;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { FailedGeneration } from '../types';
+import { ERROR_GUIDANCE } from '../services/providers';
+
+type FailedGenerationsProps = {
+  failures: FailedGeneration[];
+  onRetry: (failure: FailedGeneration) => void;
+  onDismiss: (id: string) => void;
+  onDismissAll: () => void;
+};
+
+/** Generations that failed after every automatic retry, each with a one-click manual retry. */
+const FailedGenerations = ({ failures, onRetry, onDismiss, onDismissAll }: FailedGenerationsProps) => (
+  <div className="failed-generations">
+    <div className="failed-generations-header">
+      <div className="history-title">
+        <span>⚠️</span>
+        Failed Attempts
+        <span className="history-count">{failures.length}</span>
+      </div>
+      <button type="button" className="chip-btn" onClick={onDismissAll}>Dismiss All</button>
+    </div>
+    <ul className="failed-list">
+      {failures.map(failure => (
+        <li key={failure.id} className="failed-item">
+          <div className="failed-info">
+            <strong>{ERROR_GUIDANCE[failure.kind].title}</strong>
+            <p title={failure.request.prompt}>{failure.request.prompt}</p>
+            <span>
+              {failure.message}
+              {' · '}
+              {failure.attempts} {failure.attempts === 1 ? 'attempt' : 'attempts'}
+              {' · '}
+              {new Date(failure.createdAt).toLocaleString()}
+            </span>
+          </div>
+          <div className="failed-actions">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => onRetry(failure)}
+              title={ERROR_GUIDANCE[failure.kind].action}
+            >
+              🔁 Retry
+            </button>
+            <button type="button" className="chip-btn" onClick={() => onDismiss(failure.id)} aria-label="Dismiss this failure">
+              ✕
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default FailedGenerations;
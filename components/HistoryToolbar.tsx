@@ -0,0 +1,104 @@
+import React from 'react';
+import type { HistoryFilters, HistorySort } from '../types';
+
+const SORT_OPTIONS: { value: HistorySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'favorites', label: 'Favorites first' },
+  { value: 'prompt', label: 'Prompt A–Z' },
+];
+
+type HistoryToolbarProps = {
+  filters: HistoryFilters;
+  sort: HistorySort;
+  facets: { aspectRatios: string[]; models: string[]; tags: string[] };
+  isFiltered: boolean;
+  onFiltersChange: (changes: Partial<HistoryFilters>) => void;
+  onSortChange: (sort: HistorySort) => void;
+  onReset: () => void;
+};
+
+/** Search box, filters and sort order for the history grid. */
+const HistoryToolbar = ({ filters, sort, facets, isFiltered, onFiltersChange, onSortChange, onReset }: HistoryToolbarProps) => (
+  <div className="history-toolbar">
+    <input
+      type="search"
+      className="input-field history-search"
+      placeholder="Search prompts and tags..."
+      value={filters.query}
+      onChange={(e) => onFiltersChange({ query: e.target.value })}
+      aria-label="Search history"
+    />
+    <div className="history-filters">
+      <select
+        className="input-field"
+        value={filters.aspectRatio}
+        onChange={(e) => onFiltersChange({ aspectRatio: e.target.value })}
+        aria-label="Filter by aspect ratio"
+      >
+        <option value="">Any ratio</option>
+        {facets.aspectRatios.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+      </select>
+      <select
+        className="input-field"
+        value={filters.model}
+        onChange={(e) => onFiltersChange({ model: e.target.value })}
+        aria-label="Filter by model"
+      >
+        <option value="">Any model</option>
+        {facets.models.map(model => <option key={model} value={model}>{model}</option>)}
+      </select>
+      <select
+        className="input-field"
+        value={filters.tag}
+        onChange={(e) => onFiltersChange({ tag: e.target.value })}
+        aria-label="Filter by tag"
+        disabled={facets.tags.length === 0}
+      >
+        <option value="">Any tag</option>
+        {facets.tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+      </select>
+      <label className="checkbox-label">
+        From
+        <input
+          type="date"
+          className="input-field"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => onFiltersChange({ from: e.target.value })}
+        />
+      </label>
+      <label className="checkbox-label">
+        To
+        <input
+          type="date"
+          className="input-field"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => onFiltersChange({ to: e.target.value })}
+        />
+      </label>
+      <button
+        type="button"
+        className={`chip-btn ${filters.favoritesOnly ? 'active' : ''}`}
+        onClick={() => onFiltersChange({ favoritesOnly: !filters.favoritesOnly })}
+        aria-pressed={filters.favoritesOnly}
+      >
+        ★ Favorites
+      </button>
+      <select
+        className="input-field"
+        value={sort}
+        onChange={(e) => onSortChange(e.target.value as HistorySort)}
+        aria-label="Sort history"
+      >
+        {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+      {isFiltered && (
+        <button type="button" className="chip-btn" onClick={onReset}>Reset</button>
+      )}
+    </div>
+  </div>
+);
+
+export default HistoryToolbar;
@@ -0,0 +1,137 @@
+import React from 'react';
+import type { GenerationJob, JobStatus, QueueSettings } from '../types';
+import ModelResponseNotes from './ModelResponseNotes';
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  pending: '⏳ Pending',
+  running: '⚙️ Running',
+  done: '✅ Done',
+  failed: '⚠️ Failed',
+  cancelled: '⏹️ Cancelled',
+};
+
+type JobQueueProps = {
+  jobs: GenerationJob[];
+  settings: QueueSettings;
+  now: number;
+  waitingUntil: number | null;
+  shownJobId: string | null;
+  onSettingsChange: (changes: Partial<QueueSettings>) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onShow: (id: string) => void;
+  onClearFinished: () => void;
+};
+
+/** Submitted generations in run order, with per-job reorder, cancel, retry and the queue's limits. */
+const JobQueue = ({
+  jobs,
+  settings,
+  now,
+  waitingUntil,
+  shownJobId,
+  onSettingsChange,
+  onMove,
+  onCancel,
+  onRetry,
+  onShow,
+  onClearFinished,
+}: JobQueueProps) => {
+  const pendingIds = jobs.filter(job => job.status === 'pending').map(job => job.id);
+  const hasFinished = jobs.some(job => job.status !== 'pending' && job.status !== 'running');
+
+  return (
+    <div className="job-queue">
+      <div className="job-queue-header">
+        <div className="history-title">
+          <span>📋</span>
+          Queue
+          <span className="history-count">{jobs.length}</span>
+        </div>
+        <button type="button" className="chip-btn" onClick={onClearFinished} disabled={!hasFinished}>
+          Clear Finished
+        </button>
+      </div>
+
+      <div className="queue-limits">
+        <label className="checkbox-label" htmlFor="queue-concurrency">
+          At once
+          <input
+            id="queue-concurrency"
+            type="number"
+            min={1}
+            max={8}
+            className="input-field"
+            value={settings.concurrency}
+            onChange={(e) => onSettingsChange({ concurrency: Number(e.target.value) })}
+          />
+        </label>
+        <label className="checkbox-label" htmlFor="queue-rpm">
+          Requests / min
+          <input
+            id="queue-rpm"
+            type="number"
+            min={1}
+            className="input-field"
+            value={settings.requestsPerMinute}
+            onChange={(e) => onSettingsChange({ requestsPerMinute: Number(e.target.value) })}
+          />
+        </label>
+        {waitingUntil !== null && waitingUntil > now && (
+          <span className="queue-wait">Rate limit: next job in {Math.ceil((waitingUntil - now) / 1000)}s</span>
+        )}
+      </div>
+
+      {jobs.length > 0 && (
+        <ul className="job-list">
+          {jobs.map(job => {
+            const [first] = job.requests;
+            const pendingIndex = pendingIds.indexOf(job.id);
+            const elapsed = job.startedAt ? ((job.finishedAt ?? now) - job.startedAt) / 1000 : null;
+            return (
+              <li key={job.id} className={`job-item ${job.status} ${job.id === shownJobId ? 'shown' : ''}`}>
+                <div className="job-info">
+                  <strong>{STATUS_LABELS[job.status]}</strong>
+                  <p title={first.prompt}>{first.prompt}</p>
+                  <span>
+                    {job.requests.length} {job.requests.length === 1 ? 'image' : 'variations'}
+                    {' · '}
+                    {first.aspectRatio}
+                    {first.seed && ` · seed ${first.seed}`}
+                    {elapsed !== null && ` · ${elapsed.toFixed(1)}s`}
+                  </span>
+                  {job.status === 'running' && job.statusText && <span className="job-status-text">{job.statusText}</span>}
+                  {job.status === 'running' && job.streamText && (
+                    <span className="job-stream-text" title={job.streamText}>{job.streamText}</span>
+                  )}
+                  {job.error && <span className="job-error">{job.error}</span>}
+                  {job.status === 'failed' && job.response && <ModelResponseNotes response={job.response} hasImage={false} />}
+                </div>
+                <div className="job-actions">
+                  {job.status === 'pending' && (
+                    <>
+                      <button type="button" className="chip-btn" onClick={() => onMove(job.id, -1)} disabled={pendingIndex === 0} aria-label="Move up">↑</button>
+                      <button type="button" className="chip-btn" onClick={() => onMove(job.id, 1)} disabled={pendingIndex === pendingIds.length - 1} aria-label="Move down">↓</button>
+                    </>
+                  )}
+                  {job.status === 'done' && (
+                    <button type="button" className="chip-btn" onClick={() => onShow(job.id)} disabled={job.id === shownJobId}>Show</button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button type="button" className="chip-btn" onClick={() => onRetry(job.id)}>🔁 Retry</button>
+                  )}
+                  {(job.status === 'pending' || job.status === 'running') && (
+                    <button type="button" className="chip-btn" onClick={() => onCancel(job.id)} aria-label="Cancel job">✕</button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default JobQueue;
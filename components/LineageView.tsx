@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import type { HistoryItem } from '../types';
+import { buildLineageForest, getAncestorChain, renderChainFilmstrip } from '../utils/lineage';
+import type { LineageComparePair, LineageNode } from '../utils/lineage';
+
+type LineageViewProps = {
+  history: HistoryItem[];
+  // Owned by the parent so its Esc handler can close the comparison like its other dialogs.
+  comparePair: LineageComparePair | null;
+  onCompare: (pair: LineageComparePair | null) => void;
+  onSelect: (item: HistoryItem) => void;
+  onBranch: (item: HistoryItem) => void;
+};
+
+/** Shows history as iteration trees: every improvise or regenerate hangs under its parent. */
+const LineageView = ({ history, comparePair, onCompare, onSelect, onBranch }: LineageViewProps) => {
+  const forest = useMemo(() => buildLineageForest(history), [history]);
+  const byId = useMemo(() => new Map(history.map(item => [item.id, item])), [history]);
+
+  const handleExportChain = async (item: HistoryItem) => {
+    try {
+      const blob = await renderChainFilmstrip(getAncestorChain(history, item.id));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `lineage-${item.rootId ?? item.id}-${Date.now()}.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Failed to export chain:", err);
+    }
+  };
+
+  const renderNode = (node: LineageNode, depth: number): React.ReactNode => {
+    const { item } = node;
+    const parent = item.parentId ? byId.get(item.parentId) : undefined;
+    return (
+      <li key={item.id} className="lineage-node">
+        <div className="lineage-row" style={{ marginLeft: `${depth * 1.5}rem` }}>
+          {depth > 0 && <span className="lineage-connector">└</span>}
+          <img src={item.generatedImageUrl} alt="Lineage step" onClick={() => onSelect(item)} />
+          <div className="lineage-info">
+            <p title={item.prompt}>{item.prompt}</p>
+            <span>{new Date(item.createdAt).toLocaleString()}</span>
+          </div>
+          <div className="lineage-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => onBranch(item)} title="Use as the base for a new branch">
+              🌿 Branch
+            </button>
+            {parent && (
+              <button type="button" className="btn btn-secondary" onClick={() => onCompare({ parent, child: item })}>
+                ⚖️ Compare
+              </button>
+            )}
+            <button type="button" className="btn btn-secondary" onClick={() => handleExportChain(item)} title="Download the chain up to here as one image">
+              🎞️ Export Chain
+            </button>
+          </div>
+        </div>
+        {node.children.length > 0 && (
+          <ul className="lineage-children">
+            {node.children.map(child => renderNode(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <>
+      <ul className="lineage-tree">
+        {forest.map(root => renderNode(root, 0))}
+      </ul>
+
+      {comparePair && (
+        <div className="modal-overlay" onClick={() => onCompare(null)}>
+          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h3 className="modal-title">Compare with Parent</h3>
+              <button className="modal-close-btn" onClick={() => onCompare(null)} aria-label="Close comparison">✕</button>
+            </div>
+            <div className="modal-body lineage-compare">
+              {[comparePair.parent, comparePair.child].map((item, index) => (
+                <figure key={item.id}>
+                  <img src={item.generatedImageUrl} alt={index === 0 ? 'Parent' : 'Child'} className="modal-image" />
+                  <figcaption>
+                    <strong>{index === 0 ? 'Parent' : 'Child'}</strong>
+                    {item.prompt}
+                  </figcaption>
+                </figure>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LineageView;
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { drawMaskAsOverlay, overlayToMask } from '../utils/mask';
+
+const OVERLAY_COLOR: [number, number, number] = [255, 59, 92];
+
+type MaskEditorProps = {
+  imageUrl: string;
+  initialMask: Blob | null;
+  onSave: (mask: Blob | null) => void;
+  onCancel: () => void;
+};
+
+/** Paints an inpainting mask over a base image at the image's native resolution. */
+const MaskEditor = ({ imageUrl, initialMask, onSave, onCancel }: MaskEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<'brush' | 'eraser'>('brush');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = imageUrl;
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (!size || !initialMask || !canvasRef.current) return;
+    drawMaskAsOverlay(initialMask, canvasRef.current, OVERLAY_COLOR)
+      .catch(err => console.error("Failed to load existing mask:", err));
+  }, [size, initialMask]);
+
+  // Maps a pointer position to canvas pixels, and the on-screen brush size with it.
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPointRef.current ?? { x, y };
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = `rgb(${OVERLAY_COLOR.join(',')})`;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.buttons !== 1) return;
+    paint(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleInvert = () => {
+    const canvas = canvasRef.current!;
+    const inverted = document.createElement('canvas');
+    inverted.width = canvas.width;
+    inverted.height = canvas.height;
+    const invertedCtx = inverted.getContext('2d')!;
+    invertedCtx.fillStyle = `rgb(${OVERLAY_COLOR.join(',')})`;
+    invertedCtx.fillRect(0, 0, inverted.width, inverted.height);
+    invertedCtx.globalCompositeOperation = 'destination-out';
+    invertedCtx.drawImage(canvas, 0, 0);
+
+    const ctx = canvas.getContext('2d')!;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(inverted, 0, 0);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleSave = async () => {
+    const canvas = canvasRef.current!;
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+    let hasPaint = false;
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] > 0) {
+        hasPaint = true;
+        break;
+      }
+    }
+    onSave(hasPaint ? await overlayToMask(canvas) : null);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content mask-editor" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3 className="modal-title">Paint the area to edit</h3>
+          <button className="modal-close-btn" onClick={onCancel} aria-label="Close mask editor">✕</button>
+        </div>
+
+        <div className="mask-toolbar">
+          <div className="aspect-ratio-selector">
+            <button
+              type="button"
+              className={`aspect-ratio-btn ${tool === 'brush' ? 'active' : ''}`}
+              onClick={() => setTool('brush')}
+            >
+              🖌️ Brush
+            </button>
+            <button
+              type="button"
+              className={`aspect-ratio-btn ${tool === 'eraser' ? 'active' : ''}`}
+              onClick={() => setTool('eraser')}
+            >
+              🧽 Eraser
+            </button>
+          </div>
+          <label className="checkbox-label" htmlFor="brush-size">
+            Size
+            <input
+              id="brush-size"
+              type="range"
+              min={4}
+              max={160}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+            />
+            {brushSize}px
+          </label>
+          {/* The canvas only exists once the image has loaded and `size` is known. */}
+          <button type="button" className="btn btn-secondary" onClick={handleInvert} disabled={!size}>Invert</button>
+          <button type="button" className="btn btn-secondary" onClick={handleClear} disabled={!size}>Clear</button>
+        </div>
+
+        <div className="mask-stage">
+          {size && (
+            <div className="mask-canvas-wrapper">
+              <img src={imageUrl} alt="Base image being masked" />
+              <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button type="button" className="btn btn-secondary" onClick={onCancel}>Cancel</button>
+          <button type="button" className="btn btn-success" onClick={handleSave} disabled={!size}>
+            <span>✅</span> Use Mask
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
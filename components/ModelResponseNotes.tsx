@@ -0,0 +1,40 @@
+import React from 'react';
+import type { ModelResponse } from '../types';
+import { classifyResponse } from '../utils/modelResponse';
+
+type ModelResponseNotesProps = {
+  response: ModelResponse;
+  hasImage: boolean;
+};
+
+const KIND_LABELS = {
+  ok: 'Model notes',
+  safety: 'Blocked by safety filters',
+  'text-only': 'Text-only reply',
+  empty: 'Empty response',
+};
+
+/** Shows the model's text commentary plus its finish reason and prompt feedback. */
+const ModelResponseNotes = ({ response, hasImage }: ModelResponseNotesProps) => {
+  const kind = classifyResponse(response, hasImage);
+  const text = response.text.filter(part => part.trim());
+  const hasFeedback = response.blockReason || (response.finishReason && response.finishReason !== 'STOP');
+  if (kind === 'ok' && text.length === 0 && !hasFeedback) return null;
+
+  return (
+    <div className={`model-response model-response-${kind}`}>
+      <div className="model-response-title">{KIND_LABELS[kind]}</div>
+      {text.map((part, index) => (
+        <p key={index} className="model-response-text">{part}</p>
+      ))}
+      <div className="model-response-meta">
+        {response.finishReason && <span>Finish reason: {response.finishReason}</span>}
+        {response.finishMessage && <span>{response.finishMessage}</span>}
+        {response.blockReason && <span>Prompt blocked: {response.blockReason}</span>}
+        {response.blockReasonMessage && <span>{response.blockReasonMessage}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ModelResponseNotes;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { AspectRatio, Project, ProjectDefaults, ProviderId, SettingsProfile } from '../types';
+import { PRESET_ASPECT_RATIOS } from '../utils/aspectRatio';
+
+type ProjectDialogProps = {
+  project: Project;
+  isNew: boolean;
+  providers: { id: ProviderId; label: string }[];
+  profiles: SettingsProfile[];
+  onSave: (project: Project) => void;
+  // Missing for the default project, which cannot be deleted.
+  onDelete?: () => void;
+  onClose: () => void;
+};
+
+/** Name and form defaults of one project; empty defaults leave the form as it is. */
+const ProjectDialog = ({ project, isNew, providers, profiles, onSave, onDelete, onClose }: ProjectDialogProps) => {
+  const [name, setName] = useState<string>(project.name);
+  const [defaults, setDefaults] = useState<ProjectDefaults>(project.defaults);
+
+  const update = (changes: Partial<ProjectDefaults>) => setDefaults(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({ ...project, name: name.trim(), defaults });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content project-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3 className="modal-title">{isNew ? 'New Project' : 'Project Settings'}</h3>
+          <button className="modal-close-btn" onClick={onClose} aria-label="Close project settings">✕</button>
+        </div>
+
+        <div className="project-options">
+          <div className="form-group">
+            <label className="form-label" htmlFor="project-name">Name</label>
+            <input
+              id="project-name"
+              type="text"
+              className="input-field"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="project-ratio">Default aspect ratio</label>
+            <select
+              id="project-ratio"
+              className="input-field"
+              value={defaults.aspectRatio ?? ''}
+              onChange={(e) => update({ aspectRatio: (e.target.value || undefined) as AspectRatio | undefined })}
+            >
+              <option value="">Keep current</option>
+              {PRESET_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+              {defaults.aspectRatio && !PRESET_ASPECT_RATIOS.includes(defaults.aspectRatio) && (
+                <option value={defaults.aspectRatio}>{defaults.aspectRatio}</option>
+              )}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="project-preamble">Prompt preamble</label>
+            <textarea
+              id="project-preamble"
+              className="input-field"
+              rows={3}
+              placeholder="e.g. Brand palette: navy and coral. Clean studio lighting."
+              value={defaults.promptPreamble ?? ''}
+              onChange={(e) => update({ promptPreamble: e.target.value || undefined })}
+            />
+            <p className="project-hint">Added in front of every prompt submitted in this project.</p>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="project-provider">Provider</label>
+            <select
+              id="project-provider"
+              className="input-field"
+              value={defaults.provider ?? ''}
+              onChange={(e) => update({ provider: (e.target.value || undefined) as ProviderId | undefined })}
+            >
+              <option value="">Keep current</option>
+              {providers.map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="project-profile">Settings profile</label>
+            <select
+              id="project-profile"
+              className="input-field"
+              value={defaults.settingsProfileId ?? ''}
+              onChange={(e) => update({ settingsProfileId: e.target.value || undefined })}
+              disabled={profiles.length === 0}
+            >
+              <option value="">{profiles.length === 0 ? 'No saved profiles' : 'Keep current'}</option>
+              {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          {onDelete && !isNew && (
+            <button type="button" className="btn btn-danger" onClick={onDelete}>
+              <span>🗑️</span> Delete
+            </button>
+          )}
+          <button type="button" className="btn btn-secondary" onClick={onClose}>Cancel</button>
+          <button type="button" className="btn btn-success" onClick={handleSave} disabled={!name.trim()}>
+            {isNew ? 'Create' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDialog;
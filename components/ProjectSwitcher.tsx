@@ -0,0 +1,35 @@
+import React from 'react';
+import type { Project } from '../types';
+
+type ProjectSwitcherProps = {
+  projects: Project[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onEdit: () => void;
+};
+
+/** Header control for picking the active project, plus New and Edit. */
+const ProjectSwitcher = ({ projects, activeId, onSwitch, onCreate, onEdit }: ProjectSwitcherProps) => (
+  <div className="project-switcher">
+    <span className="form-label-icon">📁</span>
+    <select
+      className="input-field"
+      value={activeId}
+      onChange={(e) => onSwitch(e.target.value)}
+      aria-label="Active project"
+    >
+      {projects.map(project => (
+        <option key={project.id} value={project.id}>{project.name}</option>
+      ))}
+    </select>
+    <button type="button" className="chip-btn" onClick={onEdit} title="Rename this project or change its defaults">
+      ✏️
+    </button>
+    <button type="button" className="chip-btn" onClick={onCreate} title="Create a new project">
+      ➕ New
+    </button>
+  </div>
+);
+
+export default ProjectSwitcher;
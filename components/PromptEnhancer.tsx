@@ -0,0 +1,44 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { diffWords } from '../utils/textDiff';
+
+type PromptEnhancerProps = {
+  draft: string;
+  proposal: string;
+  onAccept: (enhanced: string) => void;
+  onReject: () => void;
+};
+
+/** Shows a proposed prompt rewrite as an editable diff against the user's draft. */
+const PromptEnhancer = ({ draft, proposal, onAccept, onReject }: PromptEnhancerProps) => {
+  const [edited, setEdited] = useState<string>(proposal);
+  const segments = useMemo(() => diffWords(draft, edited), [draft, edited]);
+
+  // A new proposal replaces any edits made to the previous one.
+  useEffect(() => setEdited(proposal), [proposal]);
+
+  return (
+    <div className="prompt-enhancer">
+      <div className="prompt-enhancer-title">✨ Suggested prompt</div>
+      <p className="prompt-diff">
+        {segments.map((segment, index) => (
+          <span key={index} className={`diff-${segment.type}`}>{segment.text}</span>
+        ))}
+      </p>
+      <textarea
+        className="input-field"
+        value={edited}
+        onChange={(e) => setEdited(e.target.value)}
+        rows={4}
+        aria-label="Edit the suggested prompt"
+      />
+      <div className="prompt-enhancer-actions">
+        <button type="button" className="chip-btn" onClick={onReject}>Keep my draft</button>
+        <button type="button" className="chip-btn active" onClick={() => onAccept(edited)} disabled={!edited.trim()}>
+          Use this prompt
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptEnhancer;
@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import type { PromptTemplate, TemplateUsage } from '../types';
+import {
+  STYLE_CHIPS,
+  exportTemplates,
+  loadTemplates,
+  mergeImportedTemplates,
+  saveTemplates,
+} from '../services/promptLibrary';
+import { extractVariables, renderTemplate } from '../utils/promptTemplate';
+
+type PromptLibraryProps = {
+  prompt: string;
+  templateUsage: TemplateUsage | null;
+  styles: string[];
+  onTemplateChange: (usage: TemplateUsage | null, renderedPrompt: string | null) => void;
+  onStylesChange: (styles: string[]) => void;
+};
+
+/** Template picker with `{variable}` fields, style chips and JSON import/export. */
+const PromptLibrary = ({ prompt, templateUsage, styles, onTemplateChange, onStylesChange }: PromptLibraryProps) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [libraryError, setLibraryError] = useState<string>('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const activeTemplate = templates.find(template => template.id === templateUsage?.templateId);
+  const variables = activeTemplate ? extractVariables(activeTemplate.body) : [];
+
+  const updateTemplates = (next: PromptTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
+  };
+
+  const handleSelectTemplate = (id: string) => {
+    const template = templates.find(candidate => candidate.id === id);
+    if (!template) {
+      onTemplateChange(null, null);
+      return;
+    }
+    onTemplateChange({ templateId: template.id, templateName: template.name, variables: {} }, renderTemplate(template.body, {}));
+  };
+
+  const handleVariableChange = (name: string, value: string) => {
+    if (!activeTemplate || !templateUsage) return;
+    const nextVariables = { ...templateUsage.variables, [name]: value };
+    onTemplateChange({ ...templateUsage, variables: nextVariables }, renderTemplate(activeTemplate.body, nextVariables));
+  };
+
+  const handleSaveTemplate = () => {
+    if (!prompt.trim()) {
+      setLibraryError('Write a prompt first, using {variable} for the parts that change.');
+      return;
+    }
+    const name = window.prompt('Name this template:');
+    if (!name?.trim()) return;
+    const template: PromptTemplate = { id: `template-${Date.now()}`, name: name.trim(), body: prompt, createdAt: Date.now() };
+    updateTemplates([...templates, template]);
+    onTemplateChange({ templateId: template.id, templateName: template.name, variables: {} }, null);
+    setLibraryError('');
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!activeTemplate) return;
+    if (!window.confirm(`Delete the template "${activeTemplate.name}"?`)) return;
+    updateTemplates(templates.filter(template => template.id !== activeTemplate.id));
+    onTemplateChange(null, null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportTemplates(templates));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `prompt-templates-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateTemplates(mergeImportedTemplates(templates, await file.text()));
+      setLibraryError('');
+    } catch (err) {
+      console.error("Failed to import templates:", err);
+      setLibraryError(err instanceof Error ? err.message : 'Could not import that file.');
+    }
+  };
+
+  const toggleStyle = (style: string) => {
+    onStylesChange(styles.includes(style) ? styles.filter(selected => selected !== style) : [...styles, style]);
+  };
+
+  return (
+    <div className="prompt-library">
+      <div className="prompt-library-row">
+        <select
+          className="input-field"
+          value={activeTemplate?.id ?? ''}
+          onChange={(e) => handleSelectTemplate(e.target.value)}
+          aria-label="Prompt template"
+        >
+          <option value="">No template</option>
+          {templates.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+        <button type="button" className="chip-btn" onClick={handleSaveTemplate} title="Save the current prompt as a template">
+          💾 Save
+        </button>
+        {activeTemplate && (
+          <button type="button" className="chip-btn" onClick={handleDeleteTemplate} title="Delete this template">
+            🗑️
+          </button>
+        )}
+        <button type="button" className="chip-btn" onClick={() => importInputRef.current?.click()} title="Import templates from JSON">
+          ⬆️ Import
+        </button>
+        <button type="button" className="chip-btn" onClick={handleExport} disabled={templates.length === 0} title="Export templates as JSON">
+          ⬇️ Export
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+      </div>
+
+      {variables.length > 0 && (
+        <div className="template-variables">
+          {variables.map(name => (
+            <label key={name} className="template-variable">
+              <span>{name}</span>
+              <input
+                type="text"
+                className="input-field"
+                value={templateUsage?.variables[name] ?? ''}
+                onChange={(e) => handleVariableChange(name, e.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="style-chips">
+        {STYLE_CHIPS.map(style => (
+          <button
+            key={style}
+            type="button"
+            className={`chip-btn ${styles.includes(style) ? 'active' : ''}`}
+            onClick={() => toggleStyle(style)}
+          >
+            {style}
+          </button>
+        ))}
+      </div>
+
+      {libraryError && <p className="prompt-library-error">{libraryError}</p>}
+    </div>
+  );
+};
+
+export default PromptLibrary;
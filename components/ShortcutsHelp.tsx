@@ -0,0 +1,39 @@
+import React from 'react';
+
+const MOD_KEY = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl';
+
+const SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: [MOD_KEY, 'Enter'], description: 'Generate (or add to the queue)' },
+  { keys: [MOD_KEY, 'V'], description: 'Paste an image from the clipboard as a base image' },
+  { keys: ['←', '→'], description: 'Previous / next creation in the details view' },
+  { keys: ['Esc'], description: 'Close the open dialog' },
+  { keys: ['?'], description: 'Show or hide this list' },
+];
+
+type ShortcutsHelpProps = {
+  onClose: () => void;
+};
+
+/** Cheat sheet of the keyboard shortcuts, opened with `?`. */
+const ShortcutsHelp = ({ onClose }: ShortcutsHelpProps) => (
+  <div className="modal-overlay" onClick={onClose}>
+    <div className="modal-content shortcuts-dialog" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Keyboard shortcuts">
+      <div className="modal-header">
+        <h3 className="modal-title">Keyboard Shortcuts</h3>
+        <button className="modal-close-btn" onClick={onClose} aria-label="Close keyboard shortcuts">✕</button>
+      </div>
+      <ul className="shortcuts-list">
+        {SHORTCUTS.map(({ keys, description }) => (
+          <li key={description}>
+            <span className="shortcut-keys">
+              {keys.map(key => <kbd key={key}>{key}</kbd>)}
+            </span>
+            <span>{description}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  </div>
+);
+
+export default ShortcutsHelp;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { normalizeTags } from '../utils/historyFilter';
+
+type TagEditorProps = {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+};
+
+/** Free-form tag chips; Enter or a comma adds what was typed, ✕ removes a tag. */
+const TagEditor = ({ tags, suggestions, onChange }: TagEditorProps) => {
+  const [draft, setDraft] = useState<string>('');
+
+  const commit = () => {
+    const added = normalizeTags(draft.split(','));
+    setDraft('');
+    if (added.length > 0) onChange(normalizeTags([...tags, ...added]));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="tag-editor">
+      {tags.map(tag => (
+        <span key={tag} className="tag-chip">
+          #{tag}
+          <button type="button" onClick={() => onChange(tags.filter(existing => existing !== tag))} aria-label={`Remove tag ${tag}`}>
+            ✕
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        className="tag-input"
+        placeholder={tags.length > 0 ? 'Add tag...' : 'Add tags, separated by commas'}
+        value={draft}
+        list="tag-suggestions"
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commit}
+        aria-label="Add tag"
+      />
+      <datalist id="tag-suggestions">
+        {suggestions.filter(suggestion => !tags.includes(suggestion)).map(suggestion => (
+          <option key={suggestion} value={suggestion} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,238 @@
+import React from 'react';
+import type { BudgetSettings, ModelPrice, PriceTable, UsageEntry } from '../types';
+import { formatBytes } from '../utils/imagePreprocess';
+import { EMPTY_USAGE, addUsage, dayKey, estimateCost, formatCost, groupUsage } from '../utils/usage';
+import type { UsageGroup } from '../utils/usage';
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+type UsageTableProps = {
+  title: string;
+  groups: UsageGroup[];
+  labelOf?: (key: string) => string;
+};
+
+const UsageTable = ({ title, groups, labelOf = key => key }: UsageTableProps) => (
+  <div className="usage-table-wrapper">
+    <h4 className="usage-section-title">{title}</h4>
+    <table className="usage-table">
+      <thead>
+        <tr>
+          <th></th>
+          <th>Calls</th>
+          <th>Input tokens</th>
+          <th>Output tokens</th>
+          <th>Avg latency</th>
+          <th>Est. cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map(({ key, usage, cost, unpricedCalls }) => (
+          <tr key={key}>
+            <td>{labelOf(key)}</td>
+            <td>{usage.calls}</td>
+            <td>{formatTokens(usage.promptTokens)}</td>
+            <td>{formatTokens(usage.outputTokens)}</td>
+            <td>{(usage.latencyMs / usage.calls / 1000).toFixed(1)}s</td>
+            <td title={unpricedCalls > 0 ? `${unpricedCalls} calls have no price set` : undefined}>
+              {formatCost(cost)}{unpricedCalls > 0 && '*'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+type UsageDashboardProps = {
+  entries: UsageEntry[];
+  models: string[];
+  prices: PriceTable;
+  budget: BudgetSettings;
+  spent: number;
+  sessionTitles: Record<string, string>;
+  onPricesChange: (prices: PriceTable) => void;
+  onBudgetChange: (changes: Partial<BudgetSettings>) => void;
+  onReset: () => void;
+};
+
+/** Logged provider calls summed per day, model and session, with the price table and budget. */
+const UsageDashboard = ({
+  entries,
+  models,
+  prices,
+  budget,
+  spent,
+  sessionTitles,
+  onPricesChange,
+  onBudgetChange,
+  onReset,
+}: UsageDashboardProps) => {
+  const totals = entries.reduce(addUsage, EMPTY_USAGE);
+  const totalCost = entries.reduce((sum, entry) => sum + (estimateCost(entry, entry.model, prices) ?? 0), 0);
+  const pricedModels = [...new Set([...models, ...entries.map(entry => entry.model), ...Object.keys(prices)])];
+
+  const handlePriceChange = (model: string, changes: Partial<ModelPrice>) => {
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    const next = { ...current, ...changes };
+    if (!(next.inputPerMillion >= 0) || !(next.outputPerMillion >= 0)) return;
+    onPricesChange({ ...prices, [model]: next });
+  };
+
+  return (
+    <div className="usage-dashboard">
+      <div className="history-header">
+        <div className="history-title">
+          <span>📊</span>
+          Usage
+          <span className="history-count">{totals.calls}</span>
+        </div>
+        <div className="history-actions">
+          <button
+            type="button"
+            className="btn btn-danger"
+            onClick={onReset}
+            disabled={entries.length === 0}
+            style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem'}}
+          >
+            <span>🗑️</span> Reset Usage
+          </button>
+        </div>
+      </div>
+
+      <div className="usage-stats">
+        <div className="usage-stat">
+          <strong>{formatCost(totalCost)}</strong>
+          <span>Estimated cost</span>
+        </div>
+        <div className="usage-stat">
+          <strong>{formatTokens(totals.totalTokens)}</strong>
+          <span>{formatTokens(totals.promptTokens)} in · {formatTokens(totals.outputTokens)} out</span>
+        </div>
+        <div className="usage-stat">
+          <strong>{totals.calls > 0 ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s` : '—'}</strong>
+          <span>Average latency</span>
+        </div>
+        <div className="usage-stat">
+          <strong>{formatBytes(totals.requestBytes)}</strong>
+          <span>Sent · {formatBytes(totals.responseBytes)} received</span>
+        </div>
+      </div>
+
+      <div className="usage-budget">
+        <h4 className="usage-section-title">Budget</h4>
+        <div className="queue-limits">
+          <label className="checkbox-label" htmlFor="budget-limit">
+            Limit ($)
+            <input
+              id="budget-limit"
+              type="number"
+              min={0}
+              step={0.5}
+              className="input-field"
+              value={budget.limit}
+              onChange={(e) => onBudgetChange({ limit: Number(e.target.value) })}
+            />
+          </label>
+          <select
+            className="input-field"
+            value={budget.period}
+            onChange={(e) => onBudgetChange({ period: e.target.value as BudgetSettings['period'] })}
+            aria-label="Budget period"
+          >
+            <option value="day">per day</option>
+            <option value="month">per month</option>
+          </select>
+          <select
+            className="input-field"
+            value={budget.action}
+            onChange={(e) => onBudgetChange({ action: e.target.value as BudgetSettings['action'] })}
+            aria-label="When the budget is exceeded"
+          >
+            <option value="warn">Warn before submitting</option>
+            <option value="block">Block submits</option>
+          </select>
+        </div>
+        {budget.limit > 0 ? (
+          <>
+            <div className="usage-budget-bar">
+              <div
+                className={`usage-budget-fill ${spent >= budget.limit ? 'exceeded' : ''}`}
+                style={{ width: `${Math.min(100, (spent / budget.limit) * 100)}%` }}
+              />
+            </div>
+            <p className="usage-note">
+              {formatCost(spent)} of ${budget.limit.toFixed(2)} spent this {budget.period}.
+            </p>
+          </>
+        ) : (
+          <p className="usage-note">Set a limit above 0 to turn the budget on.</p>
+        )}
+      </div>
+
+      {entries.length > 0 ? (
+        <>
+          <UsageTable title="By day" groups={groupUsage(entries, entry => dayKey(entry.createdAt), prices)} />
+          <UsageTable title="By model" groups={groupUsage(entries, entry => entry.model, prices)} />
+          <UsageTable
+            title="By session"
+            groups={groupUsage(entries, entry => entry.sessionId ?? '', prices)}
+            labelOf={key => key ? sessionTitles[key] ?? 'Deleted session' : 'Generator'}
+          />
+        </>
+      ) : (
+        <div className="empty-history">
+          <div className="empty-history-icon">📊</div>
+          <div className="empty-history-text">No usage recorded yet.</div>
+        </div>
+      )}
+
+      <div className="usage-table-wrapper">
+        <h4 className="usage-section-title">Prices (USD per million tokens)</h4>
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>Model</th>
+              <th>Input</th>
+              <th>Output</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pricedModels.map(model => (
+              <tr key={model}>
+                <td>{model}</td>
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    className="input-field"
+                    placeholder="Not set"
+                    value={prices[model]?.inputPerMillion ?? ''}
+                    onChange={(e) => handlePriceChange(model, { inputPerMillion: Number(e.target.value) })}
+                    aria-label={`${model} input price`}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    className="input-field"
+                    placeholder="Not set"
+                    value={prices[model]?.outputPerMillion ?? ''}
+                    onChange={(e) => handlePriceChange(model, { outputPerMillion: Number(e.target.value) })}
+                    aria-label={`${model} output price`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="usage-note">Costs are estimates from the token counts the API reports.</p>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -1,30 +1,338 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, Modality } from "@google/genai";
+import type {
+  AspectRatio,
+  BudgetSettings,
+  ChatTurn,
+  DownloadSettings,
+  EditSession,
+  FailedGeneration,
+  GenerationConfig,
+  GenerationJob,
+  GenerationRequest,
+  GenerationSettings,
+  GenerationUsage,
+  HistoryFilters,
+  HistoryItem,
+  HistoryRecord,
+  HistorySort,
+  ImageMetadata,
+  InpaintMask,
+  ModelResponse,
+  PriceTable,
+  Project,
+  ProviderId,
+  QueueSettings,
+  RatioCorrection,
+  RatioCorrectionMode,
+  SettingsProfileRef,
+  TemplateUsage,
+  UploadLimits,
+  UsageEntry,
+} from './types';
+import {
+  clearUsageEntries,
+  deleteFailedGenerations,
+  deleteHistoryRecords,
+  getRetentionLimit,
+  loadFailedGenerations,
+  loadHistoryRecords,
+  loadSession,
+  loadSessions,
+  loadUsageEntries,
+  pruneHistoryRecords,
+  revokeHistoryItemUrls,
+  saveFailedGenerations,
+  saveHistoryRecord,
+  saveHistoryRecords,
+  saveSession,
+  saveUsageEntry,
+  setRetentionLimit as persistRetentionLimit,
+  toHistoryItem,
+  toHistoryRecord,
+} from './services/historyStore';
+import {
+  ERROR_GUIDANCE,
+  GenerationError,
+  classifyError,
+  describeError,
+  fileToImagePart,
+  getConfiguredProviderId,
+  isProviderId,
+  getProvider,
+  providers,
+  setConfiguredProviderId,
+  withRetry,
+} from './services/providers';
+import type { ProviderImage, ProviderProgress, ProviderTurn, ProviderUsage } from './services/providers';
+import { exportHistoryBundle, importHistoryBundle } from './services/historyBundle';
+import {
+  DEFAULT_PROJECT,
+  getActiveProjectId,
+  getBudgetSettings,
+  getGenerationSettings,
+  getPriceTable,
+  getQueueSettings,
+  getTimeoutSeconds,
+  getUploadLimits,
+  loadProjects,
+  loadSettingsProfiles,
+  saveProjects,
+  setActiveProjectId as persistActiveProjectId,
+  setBudgetSettings as persistBudgetSettings,
+  setDownloadSettings as persistDownloadSettings,
+  setGenerationSettings as persistGenerationSettings,
+  setPriceTable as persistPriceTable,
+  setQueueSettings as persistQueueSettings,
+  setTimeoutSeconds as persistTimeoutSeconds,
+  setUploadLimits as persistUploadLimits,
+} from './services/settings';
+import { compositeWithMask } from './utils/mask';
+import { convertImage, copyImageToClipboard, renderFilename, slugify } from './utils/imageExport';
+import { SUPPORTED_UPLOAD_TYPES, formatBytes, preprocessImage } from './utils/imagePreprocess';
+import { embedMetadata, extensionForMimeType, readMetadata, toImageMetadata } from './utils/imageMetadata';
+import { classifyResponse, describeMissingImage } from './utils/modelResponse';
+import { RATE_WINDOW_MS, moveJob, rateLimitDelay } from './utils/jobQueue';
+import { EMPTY_HISTORY_FILTERS, filterHistory, historyFacets, sortHistory } from './utils/historyFilter';
+import { EMPTY_USAGE, addUsage, estimateCost, formatCost, spendInPeriod } from './utils/usage';
+import {
+  PRESET_ASPECT_RATIOS,
+  matchesAspectRatio,
+  measureImage,
+  padToRatio,
+  parseAspectRatio,
+  smartCropToRatio,
+} from './utils/aspectRatio';
+import type { LineageComparePair } from './utils/lineage';
+import MaskEditor from './components/MaskEditor';
+import ModelResponseNotes from './components/ModelResponseNotes';
+import EditSessionPanel from './components/EditSessionPanel';
+import LineageView from './components/LineageView';
+import PromptLibrary from './components/PromptLibrary';
+import PromptEnhancer from './components/PromptEnhancer';
+import DownloadDialog from './components/DownloadDialog';
+import CompareViewer from './components/CompareViewer';
+import FailedGenerations from './components/FailedGenerations';
+import JobQueue from './components/JobQueue';
+import AdvancedSettings from './components/AdvancedSettings';
+import HistoryToolbar from './components/HistoryToolbar';
+import TagEditor from './components/TagEditor';
+import UsageDashboard from './components/UsageDashboard';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import ProjectDialog from './components/ProjectDialog';
+import { composePrompt } from './utils/promptTemplate';
 
-// --- Type definition for aspect ratio ---
-type AspectRatio = '1:1' | '16:9' | '9:16';
-
-// --- Type definition for a history item ---
-type HistoryItem = {
+// --- Type definition for one result of a multi-variation submit ---
+type Variation = {
   id: string;
-  baseImagePreviews: string[];
-  prompt: string;
-  generatedImage: string;
-  seed: string;
-  aspectRatio: AspectRatio;
+  request: GenerationRequest;
+  image: ProviderImage;
+  ratioCorrection?: RatioCorrection;
+  response: ModelResponse;
+  url: string;
+  selected: boolean;
+  historyId?: string;
+  usage?: GenerationUsage;
+};
+
+// --- Type definition for a queued job plus the results it produced ---
+type QueuedJob = GenerationJob & {
+  variations: Variation[];
+};
+
+// --- Helper function to turn a base64 payload from a provider into a Blob ---
+const base64ToBlob = (data: string, mimeType: string) => {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+// --- Helpers that build the exact request recorded on each history item ---
+const buildFinalPrompt = (prompt: string, aspectRatio: AspectRatio, mask?: InpaintMask) => mask
+  ? `${prompt}\n\n**IMPORTANT**: The last image is a black and white mask for image ${mask.imageIndex + 1}. Only change the area that is white in the mask and keep every black area exactly as it is. The output must have the same dimensions as image ${mask.imageIndex + 1}.`
+  : `${prompt}\n\n**IMPORTANT**: The output image must have a strict aspect ratio of exactly ${aspectRatio}. This is a critical requirement.`;
+
+const buildOutpaintPrompt = (prompt: string) =>
+  `${prompt}\n\n**IMPORTANT**: The second image is a mask for the first. Extend the scene into the white area of the mask so it blends seamlessly, and keep the black area exactly as it is.`;
+
+const buildGenerationConfig = (seed: string, settings: GenerationSettings): GenerationConfig => {
+  // Modality values spelled out so the browser bundle does not pull in the SDK.
+  const config: GenerationConfig = { responseModalities: ['IMAGE', 'TEXT'] };
+  const parsedSeed = Number.parseInt(seed, 10);
+  if (Number.isFinite(parsedSeed)) config.seed = parsedSeed;
+  if (settings.temperature !== undefined) config.temperature = settings.temperature;
+  if (settings.topP !== undefined) config.topP = settings.topP;
+  if (settings.topK !== undefined) config.topK = settings.topK;
+  const safetySettings = Object.entries(settings.safety).map(([category, threshold]) => ({ category, threshold }));
+  if (safetySettings.length > 0) config.safetySettings = safetySettings as GenerationConfig['safetySettings'];
+  return config;
+};
+
+// One line summarising the sampling and safety overrides in a config, for the history details.
+const describeSamplingConfig = (config: GenerationConfig) => [
+  config.temperature !== undefined && `temperature ${config.temperature}`,
+  config.topP !== undefined && `top P ${config.topP}`,
+  config.topK !== undefined && `top K ${config.topK}`,
+  config.safetySettings?.length && `${config.safetySettings.length} safety ${config.safetySettings.length === 1 ? 'override' : 'overrides'}`,
+].filter(Boolean).join(' · ');
+
+const MAX_VARIATIONS = 8;
+
+// Items saved before projects existed have no project and belong to the default one.
+const projectIdOf = (item: { projectId?: string }) => item.projectId ?? DEFAULT_PROJECT.id;
+
+const RATIO_CORRECTION_MODES: { mode: RatioCorrectionMode; label: string }[] = [
+  { mode: 'crop', label: 'Smart crop' },
+  { mode: 'letterbox', label: 'Letterbox' },
+  { mode: 'outpaint', label: 'Outpaint' },
+];
+
+// --- Seeds for each variation: sequential from the given seed, random without one ---
+const buildVariationSeeds = (seed: string, count: number, varySeeds: boolean): string[] => {
+  if (count === 1 || !varySeeds) return Array(count).fill(seed);
+  const baseSeed = Number.parseInt(seed, 10);
+  return Array.from({ length: count }, (_, index) =>
+    String(Number.isFinite(baseSeed) ? baseSeed + index : Math.floor(Math.random() * 2 ** 31)));
+};
+
+// --- Type definition for the cancellation and progress hooks of one run ---
+type RunContext = {
+  signal: AbortSignal;
+  onProgress: (progress: ProviderProgress) => void;
+  onUsage?: (usage: GenerationUsage, request: GenerationRequest) => void;
+  // Called as each provider attempt starts, retries included.
+  onAttempt?: () => void;
+};
+
+// --- Payload size of a provider call, counting base64 image data as sent over the wire ---
+const textBytes = (text: string) => new TextEncoder().encode(text).length;
+
+const partsBytes = (parts: ProviderTurn['parts']) =>
+  parts.reduce((total, part) => total + ('inlineData' in part ? part.inlineData.data.length : textBytes(part.text)), 0);
+
+const toGenerationUsage = (
+  tokens: ProviderUsage | undefined,
+  latencyMs: number,
+  requestBytes: number,
+  responseBytes: number,
+): GenerationUsage => ({
+  calls: 1,
+  promptTokens: tokens?.promptTokens ?? 0,
+  outputTokens: tokens?.outputTokens ?? 0,
+  totalTokens: tokens?.totalTokens ?? (tokens?.promptTokens ?? 0) + (tokens?.outputTokens ?? 0),
+  latencyMs: Math.round(latencyMs),
+  requestBytes,
+  responseBytes,
+});
+
+// --- Helpers that run a request through its provider and post-process the result ---
+const callProvider = async (
+  request: GenerationRequest,
+  inputs: Blob[],
+  finalPrompt: string,
+  context: RunContext,
+  history?: ProviderTurn[],
+) => {
+  const provider = getProvider(request.provider);
+  const imageParts = await Promise.all(inputs.map(file => fileToImagePart(file)));
+  let startedAt = 0;
+  const result = await withRetry(
+    () => {
+      // Latency is timed per attempt, so backoff between retries is not counted.
+      context.onAttempt?.();
+      startedAt = performance.now();
+      return provider.generate(imageParts, finalPrompt, {
+        model: request.model,
+        config: request.config,
+        aspectRatio: request.aspectRatio,
+        signal: context.signal,
+        history,
+        onProgress: context.onProgress,
+      });
+    },
+    {
+      signal: context.signal,
+      onRetry: ({ error, attempt, maxAttempts, delayMs }) => context.onProgress({
+        status: `${ERROR_GUIDANCE[error.kind].title}. Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1} of ${maxAttempts})...`,
+      }),
+    },
+  );
+  const { images, usage: tokens, ...response } = result;
+  const usage = toGenerationUsage(
+    tokens,
+    performance.now() - startedAt,
+    partsBytes(imageParts) + textBytes(finalPrompt) + (history ?? []).reduce((total, turn) => total + partsBytes(turn.parts), 0),
+    images.reduce((total, image) => total + image.data.length, 0) + textBytes(response.text.join('')),
+  );
+  context.onUsage?.(usage, request);
+  const image = images[0];
+  return { blob: image ? base64ToBlob(image.data, image.mimeType) : null, response, usage };
+};
+
+// Models often ignore the requested ratio, so measure the output and fix it here.
+const enforceAspectRatio = async (request: GenerationRequest, blob: Blob, context: RunContext) => {
+  const { width, height } = await measureImage(blob);
+  const ratioCorrection: RatioCorrection = {
+    mode: request.ratioCorrectionMode,
+    applied: false,
+    originalWidth: width,
+    originalHeight: height,
+  };
+  if (matchesAspectRatio(width, height, request.aspectRatio)) return { blob, ratioCorrection };
+
+  ratioCorrection.applied = true;
+  if (request.ratioCorrectionMode === 'crop') {
+    return { blob: await smartCropToRatio(blob, request.aspectRatio), ratioCorrection };
+  }
+  const padded = await padToRatio(blob, request.aspectRatio);
+  if (request.ratioCorrectionMode === 'outpaint') {
+    context.onProgress({ status: 'Outpainting to the target ratio...' });
+    const { blob: outpainted } = await callProvider(request, [padded.image, padded.mask], buildOutpaintPrompt(request.prompt), context);
+    if (outpainted) {
+      return { blob: await compositeWithMask(padded.image, outpainted, padded.mask), ratioCorrection };
+    }
+    console.warn("Outpaint pass returned no image; falling back to letterbox padding.");
+  }
+  return { blob: padded.image, ratioCorrection };
 };
 
-// --- Helper function to convert file to a base64 part for the Gemini API ---
-const fileToGenerativePart = async (file: File) => {
-  const base64EncodedDataPromise = new Promise<string>((resolve) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-    reader.readAsDataURL(file);
-  });
-  return {
-    inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
+// Converts a stored session transcript into the provider's chat history format.
+const toProviderTurns = (turns: ChatTurn[]): Promise<ProviderTurn[]> =>
+  Promise.all(turns.map(async turn => ({
+    role: turn.role,
+    parts: [
+      ...(await Promise.all(turn.images.map(image => fileToImagePart(image)))),
+      ...(turn.text ? [{ text: turn.text }] : []),
+    ],
+  })));
+
+const generateVariation = async (request: GenerationRequest, runContext: RunContext) => {
+  // Sums the calls made for this variation (e.g. an outpaint pass) while still reporting each one.
+  let usage = EMPTY_USAGE;
+  const context: RunContext = {
+    ...runContext,
+    onUsage: (callUsage, callRequest) => {
+      usage = addUsage(usage, callUsage);
+      runContext.onUsage?.(callUsage, callRequest);
+    },
   };
+  const inputs = request.mask ? [...request.baseImages, request.mask.blob] : request.baseImages;
+  const { blob: generated, response } = await callProvider(request, inputs, request.finalPrompt, context);
+  if (!generated && classifyResponse(response, false) === 'safety') {
+    const reason = response.blockReasonMessage || response.finishMessage || response.blockReason || response.finishReason || 'no reason given';
+    throw new GenerationError('safety', reason, { response });
+  }
+  if (!generated) return { request, image: undefined, response, usage };
+
+  let blob = generated;
+  let ratioCorrection: RatioCorrection | undefined;
+  if (request.mask) {
+    // Only the masked region comes from the model; everything else stays pixel-exact.
+    blob = await compositeWithMask(request.baseImages[request.mask.imageIndex], blob, request.mask.blob);
+  } else {
+    ({ blob, ratioCorrection } = await enforceAspectRatio(request, blob, context));
+  }
+  return { request, image: (await fileToImagePart(blob)).inlineData, ratioCorrection, response, usage };
 };
 
 const App = () => {
@@ -32,29 +340,230 @@ const App = () => {
   const [baseImages, setBaseImages] = useState<File[]>([]);
   const [baseImagePreviews, setBaseImagePreviews] = useState<string[]>([]);
   const [prompt, setPrompt] = useState<string>('');
+  const [isEnhancing, setIsEnhancing] = useState<boolean>(false);
+  const [enhanceWithImages, setEnhanceWithImages] = useState<boolean>(true);
+  const [enhancementProposal, setEnhancementProposal] = useState<{ draft: string; proposal: string } | null>(null);
+  const [promptEnhancement, setPromptEnhancement] = useState<{ originalPrompt: string; enhancedPrompt: string } | null>(null);
+  const [templateUsage, setTemplateUsage] = useState<TemplateUsage | null>(null);
+  const [styles, setStyles] = useState<string[]>([]);
   const [seed, setSeed] = useState<string>('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+  const [isCustomRatio, setIsCustomRatio] = useState<boolean>(false);
+  const [customRatio, setCustomRatio] = useState<{ width: string; height: string }>({ width: '5', height: '4' });
+  const [ratioCorrectionMode, setRatioCorrectionMode] = useState<RatioCorrectionMode>('crop');
+  const [mask, setMask] = useState<InpaintMask | null>(null);
+  const [lineageParentId, setLineageParentId] = useState<string | null>(null);
+  const [maskEditorIndex, setMaskEditorIndex] = useState<number | null>(null);
+  const [providerId, setProviderId] = useState<ProviderId>(getConfiguredProviderId);
+  const [advancedSettings, setAdvancedSettings] = useState<{ settings: GenerationSettings; profile: SettingsProfileRef | null }>(getGenerationSettings);
   const [generatedImage, setGeneratedImage] = useState<string>('');
+  const [variations, setVariations] = useState<Variation[]>([]);
+  const [currentVariation, setCurrentVariation] = useState<Variation | null>(null);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [isModalComparing, setIsModalComparing] = useState<boolean>(false);
+  const [modelResponse, setModelResponse] = useState<ModelResponse | null>(null);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [varySeeds, setVarySeeds] = useState<boolean>(true);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<ProviderProgress>({});
+  const [jobs, setJobs] = useState<QueuedJob[]>([]);
+  const [shownJobId, setShownJobId] = useState<string | null>(null);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(getQueueSettings);
+  const [queueWaitUntil, setQueueWaitUntil] = useState<number | null>(null);
+  const [queueNow, setQueueNow] = useState<number>(Date.now);
+  const jobControllersRef = useRef(new Map<string, AbortController>());
+  const requestStartTimesRef = useRef<number[]>([]);
+  const [timeoutSeconds, setTimeoutSeconds] = useState<number>(getTimeoutSeconds);
+  const [uploadLimits, setUploadLimits] = useState<UploadLimits>(getUploadLimits);
+  const [isPreparingImages, setIsPreparingImages] = useState<boolean>(false);
+  const [previewSizes, setPreviewSizes] = useState<Record<string, { width: number; height: number }>>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string>('');
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [activeTab, setActiveTab] = useState<'generator' | 'history'>('generator');
+  const [failedGenerations, setFailedGenerations] = useState<FailedGeneration[]>([]);
+  const [usageEntries, setUsageEntries] = useState<UsageEntry[]>([]);
+  const [priceTable, setPriceTable] = useState<PriceTable>(getPriceTable);
+  const [budget, setBudget] = useState<BudgetSettings>(getBudgetSettings);
+  const [historyView, setHistoryView] = useState<'grid' | 'lineage'>('grid');
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [historySort, setHistorySort] = useState<HistorySort>('newest');
+  const [isHistoryLoading, setIsHistoryLoading] = useState<boolean>(true);
+  const [retentionLimit, setRetentionLimit] = useState<number>(getRetentionLimit);
+  const [isSelectingHistory, setIsSelectingHistory] = useState<boolean>(false);
+  const [selectedHistoryIds, setSelectedHistoryIds] = useState<string[]>([]);
+  const [isTransferringHistory, setIsTransferringHistory] = useState<boolean>(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const [activeTab, setActiveTab] = useState<'generator' | 'history' | 'session' | 'usage'>('generator');
+  const [activeSession, setActiveSession] = useState<EditSession | null>(null);
+  const [sessions, setSessions] = useState<EditSession[]>([]);
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [selectedHistoryItem, setSelectedHistoryItem] = useState<HistoryItem | null>(null);
+  const [lineageComparePair, setLineageComparePair] = useState<LineageComparePair | null>(null);
+  const [downloadTarget, setDownloadTarget] = useState<{ imageUrl: string; metadata?: ImageMetadata } | null>(null);
+  const [copiedImageUrl, setCopiedImageUrl] = useState<string | null>(null);
+  const [projects, setProjects] = useState<Project[]>(loadProjects);
+  const [activeProjectId, setActiveProjectId] = useState<string>(getActiveProjectId);
+  const [editingProject, setEditingProject] = useState<{ project: Project; isNew: boolean } | null>(null);
+
+  const activeProject = projects.find(project => project.id === activeProjectId) ?? projects[0];
+  const projectHistory = useMemo(
+    () => history.filter(item => projectIdOf(item) === activeProject.id),
+    [history, activeProject.id],
+  );
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState<boolean>(false);
+  const generatorFormRef = useRef<HTMLFormElement>(null);
 
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
   }, [theme]);
+
+  // Object URLs for the bases of the shown result, which may differ from the form's current bases.
+  const variationBaseUrls = useMemo(
+    () => currentVariation?.request.baseImages.map(blob => URL.createObjectURL(blob)) ?? [],
+    [currentVariation?.request.baseImages],
+  );
+
+  useEffect(() => () => variationBaseUrls.forEach(url => URL.revokeObjectURL(url)), [variationBaseUrls]);
+
+  useEffect(() => {
+    setIsModalComparing(false);
+  }, [selectedHistoryItem]);
+
+  // Close the lineage comparison whenever its view goes away.
+  useEffect(() => {
+    setLineageComparePair(null);
+  }, [activeTab, historyView, activeProject.id]);
   
+  // --- Tick the queue clock while jobs run or wait on the rate limit ---
+  const isQueueActive = queueWaitUntil !== null || jobs.some(job => job.status === 'running');
+  useEffect(() => {
+    if (!isQueueActive) return;
+    const timer = setInterval(() => setQueueNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [isQueueActive]);
+
+  // --- Start the next pending job whenever a slot is free and the rate limit allows ---
+  useEffect(() => {
+    const running = jobs.filter(job => job.status === 'running').length;
+    const next = jobs.find(job => job.status === 'pending');
+    if (!next || running >= queueSettings.concurrency) {
+      setQueueWaitUntil(null);
+      return;
+    }
+    // Reserves one provider call per variation; runJob records retries and outpaint passes as they start.
+    const now = Date.now();
+    requestStartTimesRef.current = requestStartTimesRef.current.filter(time => time > now - RATE_WINDOW_MS);
+    const delay = rateLimitDelay(requestStartTimesRef.current, now, queueSettings.requestsPerMinute, next.requests.length);
+    if (delay > 0) {
+      setQueueWaitUntil(now + delay);
+      return;
+    }
+    setQueueWaitUntil(null);
+    requestStartTimesRef.current.push(...next.requests.map(() => now));
+    runJob(next);
+  }, [jobs, queueSettings, queueNow]);
+
+  // --- Refresh the saved session list whenever it (or the per-session usage) is shown ---
+  useEffect(() => {
+    const showsSessions = activeTab === 'usage' || (activeTab === 'session' && !activeSession);
+    if (!showsSessions) return;
+    loadSessions()
+      .then(setSessions)
+      .catch(err => console.error("Failed to load sessions:", err));
+  }, [activeTab, activeSession]);
+
+  // --- Load persisted history once on startup ---
+  useEffect(() => {
+    let cancelled = false;
+    loadHistoryRecords()
+      .then(records => {
+        if (!cancelled) setHistory(records.map(toHistoryItem));
+      })
+      .catch(err => console.error("Failed to load history:", err))
+      .finally(() => {
+        if (!cancelled) setIsHistoryLoading(false);
+      });
+    loadFailedGenerations()
+      .then(failures => {
+        if (!cancelled) setFailedGenerations(failures);
+      })
+      .catch(err => console.error("Failed to load failed generations:", err));
+    loadUsageEntries()
+      .then(entries => {
+        if (!cancelled) setUsageEntries(entries);
+      })
+      .catch(err => console.error("Failed to load usage:", err));
+    return () => { cancelled = true; };
+  }, []);
+
   const toggleTheme = () => {
     setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
   };
 
   // --- Handlers ---
-  const processFiles = useCallback((files: FileList | null) => {
+  // Selects a preset ratio, or fills in the custom ratio fields for any other.
+  const applyAspectRatio = (ratio: AspectRatio) => {
+    if (PRESET_ASPECT_RATIOS.includes(ratio)) {
+      setAspectRatio(ratio);
+      setIsCustomRatio(false);
+    } else {
+      const [width, height] = ratio.split(':');
+      setCustomRatio({ width, height });
+      setIsCustomRatio(true);
+    }
+  };
+
+  // Offers to put the settings embedded in an uploaded file (see `embedMetadata`) back into the form.
+  const offerMetadataRestore = useCallback(async (files: File[]) => {
+    for (const file of files) {
+      const metadata = await readMetadata(file);
+      if (!metadata) continue;
+      const summary = [
+        `Prompt: ${metadata.prompt}`,
+        `Seed: ${metadata.seed || 'random'}`,
+        `Aspect ratio: ${metadata.aspectRatio}`,
+        `Model: ${metadata.model}`,
+      ].join('\n');
+      if (!window.confirm(`"${file.name}" contains generation settings:\n\n${summary}\n\nRestore them into the form?`)) return;
+
+      setPrompt(metadata.prompt);
+      setTemplateUsage(null);
+      setPromptEnhancement(null);
+      setSeed(metadata.seed);
+      // Embedded metadata is untrusted input; skip values the form cannot hold.
+      if (!Number.isNaN(parseAspectRatio(metadata.aspectRatio))) applyAspectRatio(metadata.aspectRatio);
+      if (isProviderId(metadata.provider)) {
+        setProviderId(metadata.provider);
+        setConfiguredProviderId(metadata.provider);
+        // Like any manual edit in Advanced settings, this detaches the active profile.
+        if (getProvider(metadata.provider).models.includes(metadata.model)) {
+          handleAdvancedSettingsChange({ ...advancedSettings.settings, model: metadata.model }, null);
+        }
+      }
+      if (metadata.id && history.some(item => item.id === metadata.id)) {
+        setLineageParentId(metadata.id);
+      }
+      return;
+    }
+  }, [history, advancedSettings.settings]);
+
+  // Validates and normalises each upload (see `preprocessImage`); rejected files are reported, the rest are added.
+  const processFiles = useCallback(async (files: FileList | null) => {
     if (!files) return;
-    const newFiles = Array.from(files).slice(0, 3 - baseImages.length);
+    const selectedFiles = Array.from(files).slice(0, 3 - baseImages.length);
+    if (selectedFiles.length === 0) return;
+
+    setIsPreparingImages(true);
+    setError('');
+    const results = await Promise.allSettled(selectedFiles.map(file => preprocessImage(file, uploadLimits)));
+    setIsPreparingImages(false);
+
+    const accepted = selectedFiles.filter((_, index) => results[index].status === 'fulfilled');
+    const newFiles = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const rejections = results.flatMap(result =>
+      result.status === 'rejected' ? [result.reason instanceof Error ? result.reason.message : String(result.reason)] : []);
+    if (rejections.length > 0) setError(rejections.join(' '));
     if (newFiles.length === 0) return;
 
     setBaseImages(prev => [...prev, ...newFiles]);
@@ -62,8 +571,9 @@ const App = () => {
     const newPreviews = newFiles.map(file => URL.createObjectURL(file));
     setBaseImagePreviews(prev => [...prev, ...newPreviews]);
     setGeneratedImage('');
-    setError('');
-  }, [baseImages.length]);
+    // Re-encoding drops embedded metadata, so read it from the originals.
+    offerMetadataRestore(accepted);
+  }, [baseImages.length, uploadLimits, offerMetadataRestore]);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     processFiles(e.target.files);
@@ -76,8 +586,86 @@ const App = () => {
         URL.revokeObjectURL(prev[indexToRemove]);
         return newPreviews;
     });
+    if (baseImages.length === 1) setLineageParentId(null);
+    // Keep the mask pointing at the same image, or drop it with its image.
+    setMask(prev => {
+      if (!prev || prev.imageIndex === indexToRemove) return null;
+      return prev.imageIndex > indexToRemove ? { ...prev, imageIndex: prev.imageIndex - 1 } : prev;
+    });
   }
 
+  const handleMaskSave = (blob: Blob | null) => {
+    if (maskEditorIndex !== null) {
+      setMask(blob ? { imageIndex: maskEditorIndex, blob } : null);
+    }
+    setMaskEditorIndex(null);
+  };
+
+  const handleEnhancePrompt = async () => {
+    if (!prompt.trim() || !confirmWithinBudget()) return;
+    setIsEnhancing(true);
+    setError('');
+    try {
+      const provider = getProvider(providerId);
+      const parts = enhanceWithImages ? await Promise.all(baseImages.map(file => fileToImagePart(file))) : [];
+      const startedAt = performance.now();
+      const { text: proposal, usage } = await provider.enhancePrompt(prompt, parts);
+      recordUsage(
+        toGenerationUsage(usage, performance.now() - startedAt, partsBytes(parts) + textBytes(prompt), textBytes(proposal)),
+        { provider: provider.id, model: provider.enhancerModel },
+      );
+      setEnhancementProposal({ draft: prompt, proposal });
+    } catch (err) {
+      console.error("Failed to enhance prompt:", err);
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred.';
+      setError(`Could not enhance the prompt: ${errorMessage}`);
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handleAcceptEnhancement = (enhanced: string) => {
+    if (!enhancementProposal) return;
+    setPrompt(enhanced);
+    setPromptEnhancement({ originalPrompt: enhancementProposal.draft, enhancedPrompt: enhanced });
+    setEnhancementProposal(null);
+  };
+
+  // Additions around the accepted rewrite keep it recorded; once it is edited away, it is dropped.
+  const handlePromptChange = (value: string) => {
+    setPrompt(value);
+    setPromptEnhancement(prev => prev && value.includes(prev.enhancedPrompt) ? prev : null);
+  };
+
+  const handleTemplateChange = (usage: TemplateUsage | null, renderedPrompt: string | null) => {
+    setTemplateUsage(usage);
+    if (renderedPrompt !== null) handlePromptChange(renderedPrompt);
+  };
+
+  const handleAdvancedSettingsChange = (settings: GenerationSettings, profile: SettingsProfileRef | null) => {
+    setAdvancedSettings({ settings, profile });
+    persistGenerationSettings(settings, profile);
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    setConfiguredProviderId(id);
+  };
+
+  // --- Paste images from the clipboard anywhere in the generator ---
+  useEffect(() => {
+    if (activeTab !== 'generator' || maskEditorIndex !== null) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = e.clipboardData?.files;
+      // Plain text pastes into the prompt as usual.
+      if (!files || files.length === 0) return;
+      e.preventDefault();
+      processFiles(files);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [activeTab, maskEditorIndex, processFiles]);
+
   const handleDragEvents = (e: React.DragEvent<HTMLLabelElement>, isOver: boolean) => {
       e.preventDefault();
       e.stopPropagation();
@@ -89,17 +677,39 @@ const App = () => {
       processFiles(e.dataTransfer.files);
   };
   
-  const handleDownload = (imageUrl: string) => {
-    if (!imageUrl) return;
+  // Converts and resizes per the dialog's settings, then writes the generation settings into the file.
+  // Errors propagate to the dialog, which shows them.
+  const handleDownload = async (settings: DownloadSettings) => {
+    if (!downloadTarget) return;
+    const { imageUrl, metadata } = downloadTarget;
+    const blob = await (await fetch(imageUrl)).blob();
+    const converted = await convertImage(blob, settings);
+    const file = metadata ? await embedMetadata(converted, metadata) : converted;
+    const url = URL.createObjectURL(file);
     const link = document.createElement('a');
-    link.href = imageUrl;
-    link.download = `re-imagined-${Date.now()}.png`;
+    link.href = url;
+    link.download = renderFilename(settings.filenameTemplate, metadata, extensionForMimeType(file.type));
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    persistDownloadSettings(settings);
+    setDownloadTarget(null);
+  };
+
+  const handleCopyImage = async (imageUrl: string) => {
+    try {
+      await copyImageToClipboard(imageUrl);
+      setCopiedImageUrl(imageUrl);
+      setTimeout(() => setCopiedImageUrl(current => current === imageUrl ? null : current), 2000);
+    } catch (err) {
+      console.error("Failed to copy image:", err);
+      window.alert(err instanceof Error ? err.message : "Could not copy the image.");
+    }
   };
 
-  const handleImprovise = async (imageUrl: string) => {
+  // Uses an image as the new base; when it came from history, the next result becomes its child.
+  const handleImprovise = async (imageUrl: string, sourceId?: string) => {
     if (!imageUrl) return;
     
     try {
@@ -111,10 +721,12 @@ const App = () => {
       baseImagePreviews.forEach(url => URL.revokeObjectURL(url));
 
       setBaseImages([newFile]);
-      // Use the image URL directly for preview, as it's a data URL and won't expire.
-      setBaseImagePreviews([imageUrl]);
+      setMask(null);
+      // Give the form its own object URL so clearing the inputs never revokes a history item's URL.
+      setBaseImagePreviews([URL.createObjectURL(blob)]);
       setGeneratedImage('');
       setError('');
+      setLineageParentId(sourceId ?? null);
 
       if(selectedHistoryItem){
         setSelectedHistoryItem(null);
@@ -127,137 +739,878 @@ const App = () => {
     }
   };
 
-  const handleClearHistory = () => {
-    if (window.confirm("Are you sure you want to clear all history? This action cannot be undone.")) {
-        setHistory([]);
+  // Favorites survive "Clear All"; they can still be deleted one by one after unstarring.
+  // Only the active project is cleared.
+  const handleClearHistory = async () => {
+    const cleared = projectHistory.filter(item => !item.favorite);
+    if (cleared.length === 0) return;
+    const keptCount = projectHistory.length - cleared.length;
+    const message = keptCount > 0
+      ? `Are you sure you want to clear ${cleared.length} items from "${activeProject.name}"? Your ${keptCount} favorites will be kept. This action cannot be undone.`
+      : `Are you sure you want to clear all history in "${activeProject.name}"? This action cannot be undone.`;
+    if (window.confirm(message)) {
+        try {
+          const clearedIds = new Set(cleared.map(item => item.id));
+          await deleteHistoryRecords(cleared.map(item => item.id));
+          cleared.forEach(revokeHistoryItemUrls);
+          setHistory(prev => prev.filter(item => !clearedIds.has(item.id)));
+          setSelectedHistoryIds([]);
+        } catch (err) {
+          console.error("Failed to clear history:", err);
+        }
+    }
+  };
+
+  // --- Favorites and tags ---
+  const updateHistoryItem = async (id: string, changes: Pick<HistoryItem, 'favorite' | 'tags'>) => {
+    const item = history.find(candidate => candidate.id === id);
+    if (!item) return;
+    const updated = { ...item, ...changes };
+    setHistory(prev => prev.map(candidate => candidate.id === id ? updated : candidate));
+    setSelectedHistoryItem(prev => prev?.id === id ? updated : prev);
+    try {
+      await saveHistoryRecord(toHistoryRecord(updated));
+    } catch (err) {
+      console.error("Failed to update history item:", err);
+    }
+  };
+
+  const toggleFavorite = (item: HistoryItem) => updateHistoryItem(item.id, { favorite: !item.favorite });
+
+  const handleHistoryFiltersChange = (changes: Partial<HistoryFilters>) => {
+    setHistoryFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  // --- Projects ---
+  const updateProjects = (next: Project[]) => {
+    setProjects(next);
+    saveProjects(next);
+  };
+
+  // Puts the project's defaults into the form; anything left unset keeps its current value.
+  const applyProjectDefaults = ({ defaults }: Project) => {
+    if (defaults.aspectRatio) applyAspectRatio(defaults.aspectRatio);
+    if (isProviderId(defaults.provider)) handleProviderChange(defaults.provider);
+    const profile = loadSettingsProfiles().find(candidate => candidate.id === defaults.settingsProfileId);
+    if (profile) handleAdvancedSettingsChange(profile.settings, { id: profile.id, name: profile.name });
+  };
+
+  const switchProject = (project: Project) => {
+    setActiveProjectId(project.id);
+    persistActiveProjectId(project.id);
+    setHistoryFilters(EMPTY_HISTORY_FILTERS);
+    setSelectedHistoryIds([]);
+    applyProjectDefaults(project);
+  };
+
+  const handleSwitchProject = (id: string) => {
+    const project = projects.find(candidate => candidate.id === id);
+    if (project) switchProject(project);
+  };
+
+  const handleSaveProject = (project: Project) => {
+    const isNew = !projects.some(candidate => candidate.id === project.id);
+    updateProjects(isNew ? [...projects, project] : projects.map(candidate => candidate.id === project.id ? project : candidate));
+    setEditingProject(null);
+    if (isNew || project.id === activeProject.id) switchProject(project);
+  };
+
+  // A deleted project's items move to the default project rather than being lost.
+  const handleDeleteProject = async (project: Project) => {
+    const items = history.filter(item => projectIdOf(item) === project.id);
+    if (!window.confirm(
+      `Delete the project "${project.name}"?` +
+      (items.length > 0 ? ` Its ${items.length} items will move to "${projects[0].name}".` : ''),
+    )) return;
+    try {
+      await moveHistoryItems(items, DEFAULT_PROJECT.id);
+    } catch (err) {
+      console.error("Failed to move items out of the deleted project:", err);
+      return;
+    }
+    updateProjects(projects.filter(candidate => candidate.id !== project.id));
+    setEditingProject(null);
+    if (project.id === activeProject.id) switchProject(projects[0]);
+  };
+
+  const moveHistoryItems = async (items: HistoryItem[], projectId: string) => {
+    if (items.length === 0) return;
+    const moved = new Map(items.map(item => [item.id, { ...item, projectId }]));
+    await saveHistoryRecords([...moved.values()].map(toHistoryRecord));
+    setHistory(prev => prev.map(item => moved.get(item.id) ?? item));
+    setSelectedHistoryItem(prev => prev && (moved.get(prev.id) ?? prev));
+  };
+
+  // Copies share the original's images and lineage but not its editing session.
+  const copyHistoryItems = async (items: HistoryItem[], projectId: string) => {
+    if (items.length === 0) return;
+    const copies: HistoryRecord[] = items.map(item => ({
+      ...toHistoryRecord(item),
+      id: `history-${crypto.randomUUID()}`,
+      projectId,
+      sessionId: undefined,
+    }));
+    await saveHistoryRecords(copies);
+    setHistory(prev => [...prev, ...copies.map(toHistoryItem)].sort((a, b) => b.createdAt - a.createdAt));
+    await applyRetentionLimit(retentionLimit);
+  };
+
+  const handleTransferSelected = async (projectId: string, mode: 'move' | 'copy') => {
+    const items = history.filter(item => selectedHistoryIds.includes(item.id));
+    try {
+      await (mode === 'move' ? moveHistoryItems(items, projectId) : copyHistoryItems(items, projectId));
+      setSelectedHistoryIds([]);
+    } catch (err) {
+      console.error(`Failed to ${mode} history items:`, err);
+      window.alert(`Could not ${mode} the selected items.`);
+    }
+  };
+
+  // --- History bundles (.zip export/import) ---
+  const toggleHistorySelection = (id: string) => {
+    setSelectedHistoryIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const handleToggleSelecting = () => {
+    setIsSelectingHistory(prev => !prev);
+    setSelectedHistoryIds([]);
+  };
+
+  const handleExportHistory = async () => {
+    const items = selectedHistoryIds.length > 0
+      ? history.filter(item => selectedHistoryIds.includes(item.id))
+      : projectHistory;
+    if (items.length === 0) return;
+    setIsTransferringHistory(true);
+    try {
+      const url = URL.createObjectURL(await exportHistoryBundle(items.map(toHistoryRecord)));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `re-imaginator-${slugify(activeProject.name) || 'history'}-${Date.now()}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Failed to export history:", err);
+      window.alert("Could not export the history.");
+    } finally {
+      setIsTransferringHistory(false);
+    }
+  };
+
+  const handleImportHistory = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsTransferringHistory(true);
+    try {
+      const { added: imported, skipped, invalid } = await importHistoryBundle(file, history.map(toHistoryRecord));
+      // Bundles land in the active project, whichever project they were exported from.
+      const added = imported.map(record => ({ ...record, projectId: activeProject.id }));
+      const total = projectHistory.filter(item => !item.favorite).length + added.filter(record => !record.favorite).length;
+      if (added.length > 0 && total > retentionLimit && !window.confirm(
+        `Importing ${added.length} items brings "${activeProject.name}" to ${total}, above the limit of ${retentionLimit}. ` +
+        `The oldest items beyond the limit will be removed. Continue?`,
+      )) return;
+      await saveHistoryRecords(added);
+      setHistory(prev => [...prev, ...added.map(toHistoryItem)].sort((a, b) => b.createdAt - a.createdAt));
+      await applyRetentionLimit(retentionLimit);
+      const notes = [
+        skipped > 0 && `skipped ${skipped} already in your history`,
+        invalid > 0 && `skipped ${invalid} that could not be read`,
+      ].filter(Boolean);
+      window.alert(`Imported ${added.length} items${notes.map(note => `, ${note}`).join('')}.`);
+    } catch (err) {
+      console.error("Failed to import history:", err);
+      window.alert(err instanceof Error ? err.message : "Could not import that bundle.");
+    } finally {
+      setIsTransferringHistory(false);
+    }
+  };
+
+  // Lineage fields for a new item derived from `parentId`.
+  const lineageFrom = (parentId?: string | null) => {
+    if (!parentId) return {};
+    const parent = history.find(item => item.id === parentId);
+    return { parentId, rootId: parent?.rootId ?? parentId };
+  };
+
+  // Stores a new record, then trims the store back down to the retention limit.
+  const addToHistory = async (newRecord: HistoryRecord) => {
+    const record = { ...newRecord, rootId: newRecord.rootId ?? newRecord.id };
+    const item = toHistoryItem(record);
+    setHistory(prev => [item, ...prev]);
+    try {
+      await saveHistoryRecord(record);
+      await applyRetentionLimit(retentionLimit);
+    } catch (err) {
+      console.error("Failed to save history item:", err);
     }
   };
 
+  const applyRetentionLimit = async (limit: number) => {
+    const removedIds = new Set(await pruneHistoryRecords(limit));
+    if (removedIds.size === 0) return;
+    setHistory(prev => {
+      prev.filter(item => removedIds.has(item.id)).forEach(revokeHistoryItemUrls);
+      return prev.filter(item => !removedIds.has(item.id));
+    });
+  };
+
+  const handleRetentionChange = (value: string) => {
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1) return;
+    setRetentionLimit(limit);
+    persistRetentionLimit(limit);
+    applyRetentionLimit(limit).catch(err => console.error("Failed to prune history:", err));
+  };
+
   const clearInputs = () => {
     baseImagePreviews.forEach(url => URL.revokeObjectURL(url));
     setBaseImages([]);
     setBaseImagePreviews([]);
     setPrompt('');
+    setPromptEnhancement(null);
+    setEnhancementProposal(null);
+    setTemplateUsage(null);
+    setStyles([]);
     setSeed('');
-    setAspectRatio('1:1');
+    applyAspectRatio(activeProject.defaults.aspectRatio ?? '1:1');
+    setMask(null);
+    setLineageParentId(null);
   }
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (baseImages.length === 0 || !prompt) {
-      setError('Please upload at least one image and provide a prompt.');
-      return;
-    }
-
+  // Runs a task with the shared loading state, progress, Cancel button and timeout.
+  const runWithControls = async (task: (context: RunContext) => Promise<void>) => {
     setIsLoading(true);
     setError('');
-    setGeneratedImage('');
+    setProgress({});
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const timeout = setTimeout(
+      () => controller.abort(new DOMException(`Timed out after ${timeoutSeconds}s`, 'TimeoutError')),
+      timeoutSeconds * 1000,
+    );
+    const context: RunContext = {
+      signal: controller.signal,
+      onProgress: update => setProgress(prev => ({ ...prev, ...update })),
+      onUsage: recordUsage,
+      onAttempt: () => requestStartTimesRef.current.push(Date.now()),
+    };
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-      
-      const imageParts = await Promise.all(baseImages.map(file => fileToGenerativePart(file)));
-      const finalPrompt = `${prompt}\n\n**IMPORTANT**: The output image must have a strict aspect ratio of exactly ${aspectRatio}. This is a critical requirement.`;
-      const textPart = { text: finalPrompt };
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [...imageParts, textPart] },
-        config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-      });
+      await task(context);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        const reason = controller.signal.reason;
+        setError(reason instanceof DOMException && reason.name === 'TimeoutError'
+          ? `Generation timed out after ${timeoutSeconds}s. Try again or raise the timeout.`
+          : 'Generation cancelled.');
+      } else {
+        console.error(err);
+        if (err instanceof GenerationError && err.response) setModelResponse(err.response);
+        setError(describeError(err));
+      }
+    } finally {
+      clearTimeout(timeout);
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
 
-      let foundImage = false;
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          const base64ImageBytes: string = part.inlineData.data;
-          const mimeType = part.inlineData.mimeType;
-          const imageUrl = `data:${mimeType};base64,${base64ImageBytes}`;
-          setGeneratedImage(imageUrl);
-          
-          const newHistoryItem: HistoryItem = {
-              id: `history-${Date.now()}`,
-              baseImagePreviews: baseImages.length > 0 ? baseImagePreviews : [], // Handle direct data URL improv
-              prompt: prompt,
-              generatedImage: imageUrl,
-              seed: seed,
-              aspectRatio: aspectRatio,
-          };
-          setHistory(prev => [newHistoryItem, ...prev.slice(0, 19)]);
-          clearInputs();
-          foundImage = true;
-          break;
-        }
+  const updateJob = (id: string, changes: Partial<QueuedJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+  };
+
+  // Snapshots the requests as a pending job; the scheduler effect starts it when it can.
+  const enqueueJob = (requests: GenerationRequest[]) => {
+    const createdAt = Date.now();
+    setJobs(prev => [...prev, { id: `job-${crypto.randomUUID()}`, createdAt, requests, status: 'pending', variations: [] }]);
+  };
+
+  const showJobResults = (job: QueuedJob) => {
+    setShownJobId(job.id);
+    setVariations(job.variations);
+    showVariation(job.variations[0]);
+  };
+
+  // Sends every variation of a job in parallel. A single result is saved straight to history;
+  // several results are kept as variations until the user picks which to save.
+  const runJob = async (job: QueuedJob) => {
+    const { requests } = job;
+    // The scheduler already counted the first call of each variation against the rate limit.
+    let reservedCalls = requests.length;
+    const controller = new AbortController();
+    jobControllersRef.current.set(job.id, controller);
+    updateJob(job.id, {
+      status: 'running',
+      startedAt: Date.now(),
+      finishedAt: undefined,
+      statusText: undefined,
+      streamText: undefined,
+      error: undefined,
+      response: undefined,
+    });
+    const timeout = setTimeout(
+      () => controller.abort(new DOMException(`Timed out after ${timeoutSeconds}s`, 'TimeoutError')),
+      timeoutSeconds * 1000,
+    );
+    const context: RunContext = {
+      signal: controller.signal,
+      onProgress: update => {
+        if (update.status) updateJob(job.id, { statusText: update.status });
+        if (update.text) updateJob(job.id, { streamText: update.text });
+      },
+      onUsage: recordUsage,
+      onAttempt: () => {
+        if (reservedCalls > 0) reservedCalls--;
+        else requestStartTimesRef.current.push(Date.now());
+      },
+    };
+
+    try {
+      const results = await Promise.allSettled(requests.map(request => generateVariation(request, context)));
+      const reason = context.signal.reason;
+      const cancelledByUser = context.signal.aborted && !(reason instanceof DOMException && reason.name === 'TimeoutError');
+      if (!cancelledByUser) {
+        await logFailures(results.flatMap((outcome, index) =>
+          outcome.status === 'rejected' ? [{ request: requests[index], reason: outcome.reason }] : []));
       }
-      if (!foundImage) {
-        setError("The AI didn't return an image. Try a different prompt.");
+      if (context.signal.aborted) throw context.signal.reason;
+
+      const newVariations: Variation[] = [];
+      results.forEach((outcome, index) => {
+        if (outcome.status === 'rejected') {
+          console.error(`Variation ${index + 1} failed:`, outcome.reason);
+        } else if (outcome.value.image) {
+          const { request, image, ratioCorrection, response, usage } = outcome.value;
+          newVariations.push({
+            id: `variation-${job.id}-${index}`,
+            request,
+            image,
+            ratioCorrection,
+            response,
+            usage,
+            url: `data:${image.mimeType};base64,${image.data}`,
+            selected: false,
+          });
+        }
+      });
+
+      if (newVariations.length === 0) {
+        const firstFailure = results.find(outcome => outcome.status === 'rejected') as PromiseRejectedResult | undefined;
+        if (firstFailure) throw firstFailure.reason;
+        const { response } = (results[0] as PromiseFulfilledResult<Awaited<ReturnType<typeof generateVariation>>>).value;
+        updateJob(job.id, { status: 'failed', finishedAt: Date.now(), error: describeMissingImage(response), response });
+        return;
       }
 
+      const failedCount = requests.length - newVariations.length;
+      updateJob(job.id, {
+        status: 'done',
+        finishedAt: Date.now(),
+        variations: newVariations,
+        error: failedCount > 0 ? `${failedCount} of ${requests.length} variations failed and were logged in History.` : undefined,
+      });
+      showJobResults({ ...job, variations: newVariations });
+      if (requests.length === 1) await saveVariations(newVariations);
     } catch (err) {
-      console.error(err);
-      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred.';
-      setError(`Error: ${errorMessage}. Please check the console for more details.`);
+      const reason = controller.signal.reason;
+      const timedOut = reason instanceof DOMException && reason.name === 'TimeoutError';
+      if (!controller.signal.aborted) console.error(err);
+      updateJob(job.id, {
+        status: controller.signal.aborted && !timedOut ? 'cancelled' : 'failed',
+        finishedAt: Date.now(),
+        error: !controller.signal.aborted
+          ? describeError(err)
+          : timedOut ? `Timed out after ${timeoutSeconds}s. Try again or raise the timeout.` : undefined,
+        response: err instanceof GenerationError ? err.response : undefined,
+      });
     } finally {
-      setIsLoading(false);
+      clearTimeout(timeout);
+      jobControllersRef.current.delete(job.id);
     }
   };
 
-  // --- Render ---
-  return (
-    <>
-      <style>{`
-        @import url('https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;800;900&display=swap');
-        
-        :root {
-            --ease-out-quart: cubic-bezier(0.25, 1, 0.5, 1);
-            --ease-spring: cubic-bezier(0.175, 0.885, 0.32, 1.275);
-        }
-        
-        :root[data-theme='dark'] {
-            --bg-primary: #0a0a0a;
-            --bg-secondary: #141414;
-            --bg-tertiary: #1f1f1f;
-            --bg-card: #1a1a1a;
-            --text-primary: #ffffff;
-            --text-secondary: #a0a0a0;
-            --text-tertiary: #6b6b6b;
-            --border-primary: rgba(255, 255, 255, 0.08);
-            --border-secondary: rgba(255, 255, 255, 0.12);
-            --accent-primary: #6366f1;
-            --accent-secondary: #818cf8;
-            --accent-gradient: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            --accent-glow: rgba(99, 102, 241, 0.4);
-            --error: #ef4444;
-            --error-bg: rgba(239, 68, 68, 0.1);
-            --success: #10b981;
-            --success-bg: rgba(16, 185, 129, 0.1);
-            --warn: #f59e0b;
-            --glass-bg: rgba(20, 20, 20, 0.7);
-            --shadow-sm: 0 2px 8px rgba(0, 0, 0, 0.3);
-            --shadow-md: 0 8px 24px rgba(0, 0, 0, 0.4);
-            --shadow-lg: 0 20px 48px rgba(0, 0, 0, 0.5);
-            --shadow-xl: 0 32px 64px rgba(0, 0, 0, 0.6);
-        }
-        
-        :root[data-theme='light'] {
-            --bg-primary: #fafafa;
-            --bg-secondary: #ffffff;
-            --bg-tertiary: #f3f4f6;
-            --bg-card: #ffffff;
-            --text-primary: #111827;
-            --text-secondary: #6b7280;
-            --text-tertiary: #9ca3af;
-            --border-primary: rgba(0, 0, 0, 0.06);
-            --border-secondary: rgba(0, 0, 0, 0.1);
-            --accent-primary: #6366f1;
-            --accent-secondary: #4f46e5;
-            --accent-gradient: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            --accent-glow: rgba(99, 102, 241, 0.2);
-            --error: #dc2626;
-            --error-bg: rgba(220, 38, 38, 0.1);
-            --success: #059669;
-            --success-bg: rgba(5, 150, 105, 0.1);
-            --warn: #d97706;
-            --glass-bg: rgba(255, 255, 255, 0.7);
+  const handleCancelJob = (id: string) => {
+    const controller = jobControllersRef.current.get(id);
+    if (controller) {
+      controller.abort(new DOMException('Cancelled by user', 'AbortError'));
+      return;
+    }
+    setJobs(prev => prev.map(job => job.id === id && job.status === 'pending'
+      ? { ...job, status: 'cancelled', finishedAt: Date.now() }
+      : job));
+  };
+
+  // Puts a failed or cancelled job back at the end of the queue.
+  const handleRetryJob = (id: string) => {
+    setJobs(prev => {
+      const job = prev.find(candidate => candidate.id === id);
+      if (!job) return prev;
+      const reset: QueuedJob = {
+        ...job,
+        status: 'pending',
+        startedAt: undefined,
+        finishedAt: undefined,
+        statusText: undefined,
+        streamText: undefined,
+        error: undefined,
+        response: undefined,
+        variations: [],
+      };
+      return [...prev.filter(candidate => candidate.id !== id), reset];
+    });
+  };
+
+  const handleClearFinishedJobs = () => {
+    setJobs(prev => prev.filter(job => job.status === 'pending' || job.status === 'running'));
+  };
+
+  const handleQueueSettingsChange = (changes: Partial<QueueSettings>) => {
+    const settings = { ...queueSettings, ...changes };
+    if (!Number.isInteger(settings.concurrency) || settings.concurrency < 1) return;
+    if (!(settings.requestsPerMinute >= 1)) return;
+    setQueueSettings(settings);
+    persistQueueSettings(settings);
+  };
+
+  // Records generations that failed after every retry so they can be retried from History.
+  const logFailures = async (failed: { request: GenerationRequest; reason: unknown }[]) => {
+    if (failed.length === 0) return;
+    const now = Date.now();
+    const entries: FailedGeneration[] = failed.map(({ request, reason }, index) => {
+      const error = classifyError(reason);
+      return {
+        id: `failure-${crypto.randomUUID()}`,
+        createdAt: now + index,
+        request,
+        kind: error.kind,
+        message: error.message,
+        attempts: error.attempts,
+      };
+    });
+    setFailedGenerations(prev => [...[...entries].reverse(), ...prev]);
+    try {
+      const prunedIds = new Set(await saveFailedGenerations(entries, retentionLimit));
+      if (prunedIds.size > 0) setFailedGenerations(prev => prev.filter(failure => !prunedIds.has(failure.id)));
+    } catch (err) {
+      console.error("Failed to log failed generations:", err);
+    }
+  };
+
+  // --- Usage log and budget ---
+  const recordUsage = (usage: GenerationUsage, request: Pick<GenerationRequest, 'provider' | 'model' | 'sessionId'>) => {
+    const createdAt = Date.now();
+    const entry: UsageEntry = {
+      ...usage,
+      id: `usage-${crypto.randomUUID()}`,
+      createdAt,
+      provider: request.provider,
+      model: request.model,
+      sessionId: request.sessionId,
+    };
+    setUsageEntries(prev => [entry, ...prev]);
+    saveUsageEntry(entry).catch(err => console.error("Failed to log usage:", err));
+  };
+
+  // Spend is checked when a request is submitted; calls already queued still run.
+  const confirmWithinBudget = () => {
+    if (budget.limit <= 0) return true;
+    const spent = spendInPeriod(usageEntries, budget, priceTable, Date.now());
+    if (spent < budget.limit) return true;
+    const summary = `You have spent an estimated ${formatCost(spent)} this ${budget.period}, over your budget of $${budget.limit.toFixed(2)}.`;
+    if (budget.action === 'block') {
+      window.alert(`${summary} Raise the budget in the Usage tab to keep generating.`);
+      return false;
+    }
+    return window.confirm(`${summary} Generate anyway?`);
+  };
+
+  const handlePriceTableChange = (prices: PriceTable) => {
+    setPriceTable(prices);
+    persistPriceTable(prices);
+  };
+
+  const handleBudgetChange = (changes: Partial<BudgetSettings>) => {
+    const next = { ...budget, ...changes };
+    if (!(next.limit >= 0)) return;
+    setBudget(next);
+    persistBudgetSettings(next);
+  };
+
+  const handleResetUsage = async () => {
+    if (!window.confirm("Reset all recorded usage? Spend toward the budget starts again from zero.")) return;
+    try {
+      await clearUsageEntries();
+      setUsageEntries([]);
+    } catch (err) {
+      console.error("Failed to reset usage:", err);
+    }
+  };
+
+  const handleDismissFailures = (ids: string[]) => {
+    setFailedGenerations(prev => prev.filter(failure => !ids.includes(failure.id)));
+    deleteFailedGenerations(ids).catch(err => console.error("Failed to dismiss failed generations:", err));
+  };
+
+  // The old entry is dropped first; if the retry fails too, a fresh one is logged.
+  const handleRetryFailure = (failure: FailedGeneration) => {
+    if (!confirmWithinBudget()) return;
+    handleDismissFailures([failure.id]);
+    setActiveTab('generator');
+    enqueueJob([failure.request]);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort(new DOMException('Cancelled by user', 'AbortError'));
+  };
+
+  const handleUploadLimitChange = (changes: Partial<UploadLimits>) => {
+    const limits = { ...uploadLimits, ...changes };
+    if (!(limits.maxDimension > 0) || !(limits.maxMegabytes > 0)) return;
+    setUploadLimits(limits);
+    persistUploadLimits(limits);
+  };
+
+  const handleTimeoutChange = (value: string) => {
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds) || seconds <= 0) return;
+    setTimeoutSeconds(seconds);
+    persistTimeoutSeconds(seconds);
+  };
+
+  const showVariation = (variation: Variation) => {
+    setCurrentVariation(variation);
+    setGeneratedImage(variation.url);
+    setModelResponse(variation.response);
+  };
+
+  const saveVariations = async (toSave: Variation[]) => {
+    const historyIds = new Map<string, string>();
+    for (const [index, variation] of toSave.entries()) {
+      // Offset by index so the saved order matches the variation order.
+      const createdAt = Date.now() + index;
+      const id = `history-${crypto.randomUUID()}`;
+      await addToHistory({
+          ...variation.request,
+          id,
+          createdAt,
+          generatedImage: base64ToBlob(variation.image.data, variation.image.mimeType),
+          ratioCorrection: variation.ratioCorrection,
+          response: variation.response,
+          usage: variation.usage,
+      });
+      historyIds.set(variation.id, id);
+    }
+    const withHistoryId = (variation: Variation) =>
+      historyIds.has(variation.id) ? { ...variation, historyId: historyIds.get(variation.id) } : variation;
+    setVariations(prev => prev.map(withHistoryId));
+    setCurrentVariation(prev => prev && withHistoryId(prev));
+    setJobs(prev => prev.map(job => ({ ...job, variations: job.variations.map(withHistoryId) })));
+  };
+
+  const handleSaveVariations = (onlySelected: boolean) => {
+    const toSave = variations.filter(variation => !variation.historyId && (!onlySelected || variation.selected));
+    saveVariations(toSave).catch(err => console.error("Failed to save variations:", err));
+  };
+
+  const toggleVariationSelected = (id: string) => {
+    setVariations(prev => prev.map(variation => variation.id === id ? { ...variation, selected: !variation.selected } : variation));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (baseImages.length === 0 || !prompt) {
+      setError('Please upload at least one image and provide a prompt.');
+      return;
+    }
+
+    const targetRatio: AspectRatio = isCustomRatio ? `${Number(customRatio.width)}:${Number(customRatio.height)}` : aspectRatio;
+    if (Number.isNaN(parseAspectRatio(targetRatio))) {
+      setError('Please enter a custom aspect ratio with a positive width and height.');
+      return;
+    }
+
+    if (!confirmWithinBudget()) return;
+
+    const preamble = activeProject.defaults.promptPreamble?.trim();
+    const fullPrompt = [preamble, composePrompt(prompt, styles)].filter(Boolean).join('\n\n');
+    const seeds = buildVariationSeeds(seed, variationCount, varySeeds);
+    const { settings, profile } = advancedSettings;
+    // A model picked for one provider falls back to the default after switching providers.
+    const provider = getProvider(providerId);
+    const model = provider.models.includes(settings.model) ? settings.model : provider.defaultModel;
+    setError('');
+    enqueueJob(seeds.map(variationSeed => ({
+      baseImages: [...baseImages],
+      prompt: fullPrompt,
+      seed: variationSeed,
+      aspectRatio: targetRatio,
+      ratioCorrectionMode,
+      provider: providerId,
+      model,
+      config: buildGenerationConfig(variationSeed, settings),
+      finalPrompt: buildFinalPrompt(fullPrompt, targetRatio, mask ?? undefined),
+      mask: mask ?? undefined,
+      template: templateUsage ?? undefined,
+      styles: styles.length > 0 ? styles : undefined,
+      settingsProfile: profile ?? undefined,
+      projectId: activeProject.id,
+      ...promptEnhancement,
+      ...lineageFrom(lineageParentId),
+    })));
+    clearInputs();
+  };
+
+  // Re-runs a history entry with its exact model, config and final prompt.
+  const handleRegenerate = (item: HistoryItem) => {
+    if (!confirmWithinBudget()) return;
+    setSelectedHistoryItem(null);
+    setActiveTab('generator');
+    enqueueJob([{
+      baseImages: item.baseImages,
+      prompt: item.prompt,
+      seed: item.seed,
+      aspectRatio: item.aspectRatio,
+      ratioCorrectionMode: item.ratioCorrectionMode,
+      provider: item.provider,
+      model: item.model,
+      config: item.config,
+      finalPrompt: item.finalPrompt,
+      mask: item.mask,
+      template: item.template,
+      styles: item.styles,
+      settingsProfile: item.settingsProfile,
+      originalPrompt: item.originalPrompt,
+      enhancedPrompt: item.enhancedPrompt,
+      projectId: item.projectId,
+      ...lineageFrom(item.id),
+    }]);
+  };
+
+  // Opens a chat-style session seeded with a generation's request and result.
+  const startSession = async (request: GenerationRequest, image: Blob, response?: ModelResponse, historyId?: string) => {
+    const now = Date.now();
+    const session: EditSession = {
+      id: `session-${crypto.randomUUID()}`,
+      createdAt: now,
+      updatedAt: now,
+      title: request.prompt.split('\n')[0].slice(0, 60),
+      provider: request.provider,
+      model: request.model,
+      config: request.config,
+      aspectRatio: request.aspectRatio,
+      projectId: request.projectId,
+      turns: [
+        { role: 'user', text: request.prompt, images: request.baseImages },
+        { role: 'model', text: response?.text.join('\n') ?? '', images: [image], historyId },
+      ],
+    };
+    setActiveSession(session);
+    setSelectedHistoryItem(null);
+    setActiveTab('session');
+    try {
+      await saveSession(session);
+      // Link the originating history entry so the session can be resumed from it.
+      const origin = history.find(item => item.id === historyId);
+      if (origin) {
+        await saveHistoryRecord({ ...toHistoryRecord(origin), sessionId: session.id });
+        setHistory(prev => prev.map(item => item.id === origin.id ? { ...item, sessionId: session.id } : item));
+      }
+    } catch (err) {
+      console.error("Failed to save session:", err);
+    }
+  };
+
+  const handleStartSessionFromOutput = () => {
+    if (!currentVariation) return;
+    const { request, image, response, historyId } = currentVariation;
+    startSession(request, base64ToBlob(image.data, image.mimeType), response, historyId);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        setError('That editing session could not be found.');
+        return;
+      }
+      setActiveSession(session);
+      setSelectedHistoryItem(null);
+      setActiveTab('session');
+    } catch (err) {
+      console.error("Failed to open session:", err);
+    }
+  };
+
+  // Sends one follow-up instruction with the whole transcript as chat history.
+  const handleSessionSend = async (instruction: string) => {
+    const session = activeSession;
+    if (!session || !confirmWithinBudget()) return false;
+    const currentTurn = [...session.turns].reverse().find(turn => turn.role === 'model' && turn.images.length > 0);
+    const currentImage = currentTurn?.images[0];
+    let sent = false;
+
+    await runWithControls(async context => {
+      const request: GenerationRequest = {
+        baseImages: currentImage ? [currentImage] : [],
+        prompt: instruction,
+        seed: '',
+        aspectRatio: session.aspectRatio,
+        ratioCorrectionMode: 'crop',
+        provider: session.provider,
+        model: session.model,
+        config: session.config,
+        finalPrompt: instruction,
+        sessionId: session.id,
+        projectId: session.projectId,
+        ...lineageFrom(currentTurn?.historyId),
+      };
+      const { blob, response, usage } = await callProvider(request, [], instruction, context, await toProviderTurns(session.turns));
+
+      const createdAt = Date.now();
+      const historyId = blob ? `history-${crypto.randomUUID()}` : undefined;
+      const updated: EditSession = {
+        ...session,
+        updatedAt: createdAt,
+        turns: [
+          ...session.turns,
+          { role: 'user', text: instruction, images: [] },
+          { role: 'model', text: response.text.join('\n'), images: blob ? [blob] : [], historyId },
+        ],
+      };
+      setActiveSession(updated);
+      sent = true;
+      await saveSession(updated);
+      if (blob && historyId) {
+        await addToHistory({ ...request, id: historyId, createdAt, generatedImage: blob, response, usage });
+      } else {
+        setError(describeMissingImage(response));
+      }
+    });
+    return sent;
+  };
+
+  const runningJob = jobs.find(job => job.status === 'running');
+
+  const budgetSpent = spendInPeriod(usageEntries, budget, priceTable, Date.now());
+  const isOverBudget = budget.limit > 0 && budgetSpent >= budget.limit;
+
+  const visibleHistory = useMemo(
+    () => sortHistory(filterHistory(projectHistory, historyFilters), historySort),
+    [projectHistory, historyFilters, historySort],
+  );
+  const historyFacetValues = useMemo(() => historyFacets(projectHistory), [projectHistory]);
+  const isHistoryFiltered = Object.keys(EMPTY_HISTORY_FILTERS).some(
+    key => historyFilters[key as keyof HistoryFilters] !== EMPTY_HISTORY_FILTERS[key as keyof HistoryFilters],
+  );
+
+  // --- Keyboard shortcuts (listed in ShortcutsHelp) ---
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        if (activeTab !== 'generator' || !generatorFormRef.current) return;
+        e.preventDefault();
+        generatorFormRef.current.requestSubmit();
+        return;
+      }
+      // Esc closes the topmost dialog only.
+      if (e.key === 'Escape') {
+        if (isShortcutsOpen) setIsShortcutsOpen(false);
+        else if (editingProject) setEditingProject(null);
+        else if (downloadTarget) setDownloadTarget(null);
+        else if (maskEditorIndex !== null) setMaskEditorIndex(null);
+        else if (lineageComparePair) setLineageComparePair(null);
+        else if (selectedHistoryItem) setSelectedHistoryItem(null);
+        else return;
+        e.preventDefault();
+        return;
+      }
+      if (isTyping(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === '?') {
+        e.preventDefault();
+        setIsShortcutsOpen(prev => !prev);
+      } else if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && selectedHistoryItem && !downloadTarget && !isShortcutsOpen) {
+        // Follow the grid's filtered order, or the full history for an item opened from outside it.
+        const items = visibleHistory.some(item => item.id === selectedHistoryItem.id) ? visibleHistory : history;
+        const index = items.findIndex(item => item.id === selectedHistoryItem.id);
+        const next = items[index + (e.key === 'ArrowLeft' ? -1 : 1)];
+        if (index < 0 || !next) return;
+        e.preventDefault();
+        setSelectedHistoryItem(next);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTab, isShortcutsOpen, editingProject, downloadTarget, maskEditorIndex, lineageComparePair, selectedHistoryItem, visibleHistory, history]);
+
+  const selectedParent = selectedHistoryItem?.parentId
+    ? history.find(item => item.id === selectedHistoryItem.parentId)
+    : undefined;
+
+  // --- Render ---
+  return (
+    <>
+      <style>{`
+        @import url('https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700;800;900&display=swap');
+        
+        :root {
+            --ease-out-quart: cubic-bezier(0.25, 1, 0.5, 1);
+            --ease-spring: cubic-bezier(0.175, 0.885, 0.32, 1.275);
+        }
+        
+        :root[data-theme='dark'] {
+            --bg-primary: #0a0a0a;
+            --bg-secondary: #141414;
+            --bg-tertiary: #1f1f1f;
+            --bg-card: #1a1a1a;
+            --text-primary: #ffffff;
+            --text-secondary: #a0a0a0;
+            --text-tertiary: #6b6b6b;
+            --border-primary: rgba(255, 255, 255, 0.08);
+            --border-secondary: rgba(255, 255, 255, 0.12);
+            --accent-primary: #6366f1;
+            --accent-secondary: #818cf8;
+            --accent-gradient: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            --accent-glow: rgba(99, 102, 241, 0.4);
+            --error: #ef4444;
+            --error-bg: rgba(239, 68, 68, 0.1);
+            --success: #10b981;
+            --success-bg: rgba(16, 185, 129, 0.1);
+            --warn: #f59e0b;
+            --glass-bg: rgba(20, 20, 20, 0.7);
+            --shadow-sm: 0 2px 8px rgba(0, 0, 0, 0.3);
+            --shadow-md: 0 8px 24px rgba(0, 0, 0, 0.4);
+            --shadow-lg: 0 20px 48px rgba(0, 0, 0, 0.5);
+            --shadow-xl: 0 32px 64px rgba(0, 0, 0, 0.6);
+        }
+        
+        :root[data-theme='light'] {
+            --bg-primary: #fafafa;
+            --bg-secondary: #ffffff;
+            --bg-tertiary: #f3f4f6;
+            --bg-card: #ffffff;
+            --text-primary: #111827;
+            --text-secondary: #6b7280;
+            --text-tertiary: #9ca3af;
+            --border-primary: rgba(0, 0, 0, 0.06);
+            --border-secondary: rgba(0, 0, 0, 0.1);
+            --accent-primary: #6366f1;
+            --accent-secondary: #4f46e5;
+            --accent-gradient: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            --accent-glow: rgba(99, 102, 241, 0.2);
+            --error: #dc2626;
+            --error-bg: rgba(220, 38, 38, 0.1);
+            --success: #059669;
+            --success-bg: rgba(5, 150, 105, 0.1);
+            --warn: #d97706;
+            --glass-bg: rgba(255, 255, 255, 0.7);
             --shadow-sm: 0 1px 3px rgba(0, 0, 0, 0.05);
             --shadow-md: 0 4px 12px rgba(0, 0, 0, 0.08);
             --shadow-lg: 0 10px 25px rgba(0, 0, 0, 0.1);
@@ -666,6 +2019,116 @@ const App = () => {
             transform: scale(1.1);
         }
         
+        .mask-image-btn {
+            position: absolute;
+            top: 8px;
+            left: 8px;
+            width: 28px;
+            height: 28px;
+            background: var(--glass-bg);
+            backdrop-filter: blur(10px);
+            border: 1px solid var(--border-primary);
+            border-radius: 50%;
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 0.8rem;
+            opacity: 0;
+            transition: all 0.2s ease;
+        }
+        
+        .preview-item:hover .mask-image-btn {
+            opacity: 1;
+        }
+        
+        .mask-badge {
+            position: absolute;
+            bottom: 8px;
+            left: 8px;
+            background: rgba(255, 59, 92, 0.85);
+            color: white;
+            font-size: 0.7rem;
+            font-weight: 600;
+            padding: 0.1rem 0.5rem;
+            border-radius: 8px;
+        }
+        
+        .preview-size-badge {
+            position: absolute;
+            bottom: 8px;
+            right: 8px;
+            background: rgba(0, 0, 0, 0.7);
+            color: white;
+            font-size: 0.6rem;
+            font-weight: 600;
+            padding: 0.1rem 0.4rem;
+            border-radius: 8px;
+            white-space: nowrap;
+        }
+        
+        .upload-limits {
+            display: flex;
+            gap: 1rem;
+            flex-wrap: wrap;
+        }
+        
+        .upload-limits .input-field {
+            width: 100px;
+            padding: 0.5rem 0.75rem;
+        }
+        
+        /* Mask Editor */
+        .mask-toolbar {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            flex-wrap: wrap;
+            padding: 1rem 2rem;
+            border-bottom: 1px solid var(--border-primary);
+        }
+        
+        .mask-toolbar .aspect-ratio-selector {
+            grid-template-columns: repeat(2, 1fr);
+        }
+        
+        .mask-toolbar .btn {
+            width: auto;
+            padding: 0.5rem 1rem;
+            font-size: 0.85rem;
+        }
+        
+        .mask-stage {
+            flex: 1;
+            overflow: auto;
+            padding: 1.5rem;
+            display: flex;
+            justify-content: center;
+            background: var(--bg-primary);
+        }
+        
+        .mask-canvas-wrapper {
+            position: relative;
+            max-width: 100%;
+        }
+        
+        .mask-canvas-wrapper img {
+            display: block;
+            max-width: 100%;
+            max-height: 60vh;
+            user-select: none;
+        }
+        
+        .mask-canvas-wrapper canvas {
+            position: absolute;
+            inset: 0;
+            width: 100%;
+            height: 100%;
+            opacity: 0.55;
+            cursor: crosshair;
+            touch-action: none;
+        }
+        
         /* Input Fields */
         .input-field {
             width: 100%;
@@ -690,29 +2153,215 @@ const App = () => {
             color: var(--text-tertiary);
         }
         
-        textarea.input-field {
-            resize: vertical;
-            min-height: 140px;
-            line-height: 1.5;
+        /* Prompt Library */
+        .prompt-library {
+            display: flex;
+            flex-direction: column;
+            gap: 0.75rem;
+            margin-bottom: 0.75rem;
         }
         
-        .aspect-ratio-selector {
-            display: grid;
-            grid-template-columns: repeat(3, 1fr);
+        .prompt-library-row {
+            display: flex;
             gap: 0.5rem;
-            background: var(--bg-primary);
-            border: 1px solid var(--border-primary);
-            border-radius: 16px;
-            padding: 0.25rem;
+            align-items: center;
         }
-
-        .aspect-ratio-btn {
-            padding: 0.75rem;
-            background: transparent;
+        
+        .prompt-library-row select {
+            flex: 1;
+            padding: 0.6rem 0.9rem;
+        }
+        
+        /* Advanced Settings */
+        .advanced-toggle {
+            width: 100%;
+            padding: 0;
+            background: none;
             border: none;
-            color: var(--text-secondary);
-            font-size: 0.9rem;
-            font-weight: 600;
+            font-family: inherit;
+            cursor: pointer;
+            text-align: left;
+        }
+        
+        .advanced-summary {
+            margin-left: auto;
+            font-size: 0.8rem;
+            font-weight: 500;
+            color: var(--text-tertiary);
+        }
+        
+        .advanced-body {
+            display: flex;
+            flex-direction: column;
+            gap: 1rem;
+        }
+        
+        .advanced-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(140px, 1fr));
+            gap: 0.75rem;
+        }
+        
+        .advanced-field span {
+            display: block;
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+            margin-bottom: 0.25rem;
+        }
+        
+        .advanced-field .input-field {
+            padding: 0.5rem 0.75rem;
+        }
+        
+        .chip-btn {
+            padding: 0.4rem 0.8rem;
+            border-radius: 999px;
+            border: 1px solid var(--border-secondary);
+            background: var(--bg-tertiary);
+            color: var(--text-secondary);
+            font: inherit;
+            font-size: 0.8rem;
+            cursor: pointer;
+            white-space: nowrap;
+            transition: all 0.2s ease;
+        }
+        
+        .chip-btn:hover:not(:disabled) {
+            border-color: var(--accent-primary);
+            color: var(--text-primary);
+        }
+        
+        .chip-btn.active {
+            background: var(--accent-primary);
+            border-color: var(--accent-primary);
+            color: white;
+        }
+        
+        .chip-btn:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+        
+        .template-variables {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+            gap: 0.5rem;
+        }
+        
+        .template-variable span {
+            display: block;
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+            margin-bottom: 0.25rem;
+        }
+        
+        .template-variable .input-field {
+            padding: 0.5rem 0.75rem;
+        }
+        
+        .style-chips {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+        }
+        
+        .prompt-library-error {
+            font-size: 0.8rem;
+            color: var(--error);
+        }
+        
+        .prompt-tools {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            margin-top: 0.75rem;
+        }
+        
+        .prompt-enhancer {
+            margin-top: 0.75rem;
+            padding: 1rem;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            border: 1px solid var(--accent-primary);
+            display: flex;
+            flex-direction: column;
+            gap: 0.75rem;
+        }
+        
+        .prompt-enhancer-title {
+            font-size: 0.8rem;
+            font-weight: 700;
+            text-transform: uppercase;
+            letter-spacing: 0.05em;
+            color: var(--text-secondary);
+        }
+        
+        .prompt-diff {
+            font-size: 0.9rem;
+            white-space: pre-wrap;
+        }
+        
+        .diff-added {
+            background: var(--success-bg);
+            color: var(--success);
+        }
+        
+        .diff-removed {
+            background: var(--error-bg);
+            color: var(--error);
+            text-decoration: line-through;
+        }
+        
+        .prompt-enhancer-actions {
+            display: flex;
+            justify-content: flex-end;
+            gap: 0.5rem;
+        }
+        
+        textarea.input-field {
+            resize: vertical;
+            min-height: 140px;
+            line-height: 1.5;
+        }
+        
+        .aspect-ratio-selector {
+            display: grid;
+            grid-template-columns: repeat(3, 1fr);
+            gap: 0.5rem;
+            background: var(--bg-primary);
+            border: 1px solid var(--border-primary);
+            border-radius: 16px;
+            padding: 0.25rem;
+        }
+
+        .custom-ratio {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            margin-top: 0.75rem;
+        }
+        
+        .custom-ratio .input-field {
+            width: 100px;
+        }
+        
+        .ratio-correction {
+            margin-top: 0.75rem;
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+        }
+        
+        .ratio-correction .aspect-ratio-selector {
+            margin-top: 0.5rem;
+        }
+        
+        .aspect-ratio-btn {
+            padding: 0.75rem;
+            background: transparent;
+            border: none;
+            color: var(--text-secondary);
+            font-size: 0.9rem;
+            font-weight: 600;
             cursor: pointer;
             border-radius: 12px;
             transition: all 0.3s var(--ease-out-quart);
@@ -921,6 +2570,27 @@ const App = () => {
             50% { opacity: 1; }
         }
         
+        .loading-elapsed {
+            font-size: 0.85rem;
+            color: var(--text-tertiary);
+            font-variant-numeric: tabular-nums;
+        }
+        
+        .loading-stream {
+            max-width: 90%;
+            max-height: 120px;
+            overflow-y: auto;
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+            white-space: pre-wrap;
+            text-align: left;
+        }
+        
+        .loading-container .btn {
+            padding: 0.6rem 1.25rem;
+            font-size: 0.9rem;
+        }
+        
         /* Error Message */
         .error-message {
             background: var(--error-bg);
@@ -947,121 +2617,1007 @@ const App = () => {
             font-size: 1.2rem;
         }
         
-        /* Action Buttons */
-        .output-actions {
+        /* Action Buttons */
+        /* Compare Viewer */
+        .compare-viewer {
+            width: 100%;
+            display: flex;
+            flex-direction: column;
+            gap: 0.75rem;
+            padding: 0.75rem;
+        }
+        
+        .compare-toolbar {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 0.75rem;
+        }
+        
+        .compare-modes {
+            flex: 1;
+            min-width: 240px;
+        }
+        
+        .compare-bases {
+            display: flex;
+            gap: 0.4rem;
+        }
+        
+        .compare-base-btn {
+            width: 40px;
+            height: 40px;
+            padding: 0;
+            border-radius: 10px;
+            overflow: hidden;
+            border: 2px solid var(--border-primary);
+            background: none;
+            cursor: pointer;
+        }
+        
+        .compare-base-btn.active {
+            border-color: var(--accent-primary);
+        }
+        
+        .compare-base-btn img {
+            width: 100%;
+            height: 100%;
+            object-fit: cover;
+        }
+        
+        .compare-zoom {
+            display: flex;
+            align-items: center;
+            gap: 0.4rem;
+            font-size: 0.8rem;
+            color: var(--text-secondary);
+        }
+        
+        .compare-stage {
+            position: relative;
+            width: 100%;
+            max-height: 70vh;
+            overflow: hidden;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            touch-action: none;
+            user-select: none;
+        }
+        
+        .compare-stage.zoomed {
+            cursor: grab;
+        }
+        
+        .compare-layer {
+            position: absolute;
+            inset: 0;
+        }
+        
+        .compare-layer:first-child {
+            position: relative;
+        }
+        
+        .compare-layer img {
+            display: block;
+            width: 100%;
+            height: 100%;
+            object-fit: contain;
+            transform-origin: center;
+            pointer-events: none;
+        }
+        
+        .compare-divider {
+            position: absolute;
+            top: 0;
+            bottom: 0;
+            width: 2px;
+            margin-left: -1px;
+            background: white;
+            box-shadow: 0 0 6px rgba(0, 0, 0, 0.5);
+            cursor: ew-resize;
+        }
+        
+        .compare-divider span {
+            position: absolute;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            width: 32px;
+            height: 32px;
+            border-radius: 50%;
+            background: white;
+            color: #111;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 0.9rem;
+            box-shadow: var(--shadow-md);
+        }
+        
+        .compare-label {
+            position: absolute;
+            top: 8px;
+            padding: 0.1rem 0.5rem;
+            border-radius: 8px;
+            background: rgba(0, 0, 0, 0.7);
+            color: white;
+            font-size: 0.7rem;
+            font-weight: 600;
+            pointer-events: none;
+        }
+        
+        .compare-label-before {
+            left: 8px;
+        }
+        
+        .compare-label-after {
+            right: 8px;
+        }
+        
+        .compare-side-by-side {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 0.75rem;
+        }
+        
+        .output-actions {
+            display: flex;
+            gap: 1rem;
+            flex-wrap: wrap;
+        }
+        
+        .output-actions .btn {
+            flex: 1;
+            min-width: 140px;
+        }
+        
+        /* Model Response */
+        .model-response {
+            margin-top: 1.5rem;
+            padding: 1rem 1.25rem;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            border: 1px solid var(--border-primary);
+            border-left: 4px solid var(--accent-primary);
+            font-size: 0.9rem;
+        }
+        
+        .modal-details .model-response {
+            margin: 0 0 1rem;
+        }
+        
+        .model-response-safety {
+            border-left-color: var(--error);
+            background: var(--error-bg);
+        }
+        
+        .model-response-text-only,
+        .model-response-empty {
+            border-left-color: var(--warn);
+        }
+        
+        .model-response-title {
+            font-weight: 700;
+            font-size: 0.8rem;
+            text-transform: uppercase;
+            letter-spacing: 0.05em;
+            color: var(--text-secondary);
+            margin-bottom: 0.5rem;
+        }
+        
+        .model-response-text {
+            color: var(--text-primary);
+            white-space: pre-wrap;
+            margin-bottom: 0.5rem;
+        }
+        
+        .model-response-meta {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.75rem;
+            font-size: 0.75rem;
+            color: var(--text-tertiary);
+        }
+        
+        /* Editing Sessions */
+        .session-list {
+            display: flex;
+            flex-direction: column;
+            gap: 0.75rem;
+        }
+        
+        .session-list-item {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            gap: 1rem;
+            padding: 1rem 1.25rem;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            border: 1px solid var(--border-primary);
+            color: var(--text-primary);
+            font: inherit;
+            text-align: left;
+            cursor: pointer;
+            transition: all 0.2s ease;
+        }
+        
+        .session-list-item:hover {
+            border-color: var(--accent-primary);
+        }
+        
+        .session-list-item span {
+            font-size: 0.8rem;
+            color: var(--text-tertiary);
+            white-space: nowrap;
+        }
+        
+        .session-transcript {
+            display: flex;
+            flex-direction: column;
+            gap: 1rem;
+            max-height: 60vh;
+            overflow-y: auto;
+            padding: 0.5rem;
+        }
+        
+        .session-turn {
+            max-width: 75%;
+            padding: 1rem;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            border: 1px solid var(--border-primary);
+        }
+        
+        .session-turn-user {
+            align-self: flex-end;
+            background: var(--accent-glow);
+        }
+        
+        .session-turn-model {
+            align-self: flex-start;
+        }
+        
+        .session-turn-role {
+            font-size: 0.75rem;
+            font-weight: 700;
+            text-transform: uppercase;
+            letter-spacing: 0.05em;
+            color: var(--text-secondary);
+            margin-bottom: 0.5rem;
+        }
+        
+        .session-turn p {
+            white-space: pre-wrap;
+        }
+        
+        .session-turn-images {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+            margin-bottom: 0.5rem;
+        }
+        
+        .session-turn-images img {
+            max-width: 100%;
+            max-height: 320px;
+            border-radius: 12px;
+        }
+        
+        .session-turn .btn {
+            margin-top: 0.75rem;
+            padding: 0.5rem 1rem;
+            font-size: 0.85rem;
+        }
+        
+        .session-input {
+            display: flex;
+            gap: 0.75rem;
+            margin-top: 1.5rem;
+        }
+        
+        .session-input .btn {
+            flex-shrink: 0;
+            width: auto;
+            height: auto;
+        }
+        
+        /* Variations */
+        .variation-controls {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            flex-wrap: wrap;
+        }
+        
+        .variation-controls input[type="range"] {
+            flex: 1;
+            accent-color: var(--accent-primary);
+        }
+        
+        .variation-count {
+            min-width: 2ch;
+            font-weight: 700;
+            color: var(--accent-primary);
+        }
+        
+        .checkbox-label {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+            cursor: pointer;
+        }
+        
+        .variation-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(90px, 1fr));
+            gap: 0.75rem;
+            margin-top: 1.5rem;
+        }
+        
+        .variation-item {
+            position: relative;
+            aspect-ratio: 1;
+            border-radius: 12px;
+            overflow: hidden;
+            cursor: pointer;
+            border: 2px solid transparent;
+            transition: all 0.2s ease;
+        }
+        
+        .variation-item.active {
+            border-color: var(--accent-primary);
+        }
+        
+        .variation-item.selected {
+            box-shadow: 0 0 0 3px var(--success);
+        }
+        
+        .variation-item img {
+            width: 100%;
+            height: 100%;
+            object-fit: cover;
+        }
+        
+        .variation-select {
+            position: absolute;
+            top: 6px;
+            right: 6px;
+            width: 18px;
+            height: 18px;
+            accent-color: var(--success);
+        }
+        
+        .variation-saved {
+            position: absolute;
+            bottom: 6px;
+            left: 6px;
+            background: var(--success);
+            color: white;
+            font-size: 0.7rem;
+            font-weight: 600;
+            padding: 0.1rem 0.5rem;
+            border-radius: 8px;
+        }
+        
+        /* History Panel */
+        .history-panel {
+            animation: fadeIn 0.5s ease;
+        }
+        
+        .history-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 2rem;
+        }
+        
+        .history-title {
+            font-size: 1.25rem;
+            font-weight: 700;
+            color: var(--text-primary);
+            display: flex;
+            align-items: center;
+            gap: 0.75rem;
+        }
+        
+        .history-count {
+            background: var(--accent-gradient);
+            color: white;
+            padding: 0.25rem 0.75rem;
+            border-radius: 20px;
+            font-size: 0.875rem;
+            font-weight: 600;
+        }
+        
+        .history-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+            gap: 1.25rem;
+        }
+        
+        .history-item {
+            position: relative;
+            aspect-ratio: 1;
+            border-radius: 20px;
+            overflow: hidden;
+            cursor: pointer;
+            transition: all 0.3s var(--ease-out-quart);
+            box-shadow: var(--shadow-sm);
+            background: var(--bg-card);
+            border: 2px solid transparent;
+        }
+        
+        .history-item::before {
+            content: '';
+            position: absolute;
+            inset: 0;
+            background: linear-gradient(to bottom, transparent 0%, rgba(0,0,0,0.7) 100%);
+            opacity: 0;
+            transition: opacity 0.3s ease;
+            z-index: 1;
+        }
+        
+        .history-item:hover {
+            transform: translateY(-8px) scale(1.02);
+            box-shadow: var(--shadow-lg);
+            border-color: var(--accent-primary);
+        }
+        
+        .history-item:hover::before {
+            opacity: 1;
+        }
+        
+        .history-item img {
+            width: 100%;
+            height: 100%;
+            object-fit: cover;
+            transition: transform 0.3s ease;
+        }
+        
+        .history-item:hover img {
+            transform: scale(1.1);
+        }
+        
+        .history-item-number {
+            position: absolute;
+            top: 12px;
+            left: 12px;
+            background: rgba(0, 0, 0, 0.7);
+            backdrop-filter: blur(10px);
+            color: white;
+            width: 28px;
+            height: 28px;
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-size: 0.75rem;
+            font-weight: 600;
+            z-index: 2;
+            opacity: 0;
+            transform: scale(0.8);
+            transition: all 0.3s ease;
+        }
+        
+        .history-item:hover .history-item-number {
+            opacity: 1;
+            transform: scale(1);
+        }
+        
+        .history-actions {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 1rem;
+        }
+        
+        .history-item.selected {
+            border-color: var(--accent-primary);
+        }
+        
+        .history-item-check {
+            position: absolute;
+            top: 12px;
+            right: 12px;
+            width: 28px;
+            height: 28px;
+            border-radius: 50%;
+            background: var(--accent-primary);
+            color: white;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            font-weight: 700;
+            z-index: 2;
+        }
+        
+        .history-item-star {
+            position: absolute;
+            bottom: 10px;
+            right: 10px;
+            width: 32px;
+            height: 32px;
+            border-radius: 50%;
+            border: none;
+            background: rgba(0, 0, 0, 0.6);
+            backdrop-filter: blur(10px);
+            color: white;
+            font-size: 1.1rem;
+            cursor: pointer;
+            z-index: 2;
+            opacity: 0;
+            transition: all 0.2s ease;
+        }
+        
+        .history-item:hover .history-item-star,
+        .history-item-star:focus-visible,
+        .history-item-star.active {
+            opacity: 1;
+        }
+        
+        .history-item-star.active {
+            color: var(--warn);
+        }
+        
+        .history-item-star:hover {
+            transform: scale(1.1);
+        }
+        
+        .history-toolbar {
+            display: flex;
+            flex-direction: column;
+            gap: 0.75rem;
+            margin-bottom: 1.5rem;
+        }
+        
+        .history-filters {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+        }
+        
+        .history-filters .input-field {
+            width: auto;
+            padding: 0.5rem 0.75rem;
+            font-size: 0.85rem;
+        }
+        
+        .history-filters .checkbox-label {
+            font-size: 0.85rem;
+            white-space: nowrap;
+        }
+        
+        .tag-editor {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 0.4rem;
+            margin-top: 0.25rem;
+        }
+        
+        .tag-chip {
+            display: inline-flex;
+            align-items: center;
+            gap: 0.25rem;
+            padding: 0.2rem 0.4rem 0.2rem 0.6rem;
+            border-radius: 999px;
+            background: var(--bg-tertiary);
+            color: var(--text-secondary);
+            font-size: 0.8rem;
+        }
+        
+        .tag-chip button {
+            border: none;
+            background: none;
+            color: var(--text-tertiary);
+            cursor: pointer;
+            font-size: 0.7rem;
+            padding: 0 0.2rem;
+        }
+        
+        .tag-chip button:hover {
+            color: var(--error);
+        }
+        
+        .tag-input {
+            flex: 1;
+            min-width: 120px;
+            border: none;
+            background: transparent;
+            color: var(--text-primary);
+            font-size: 0.85rem;
+            padding: 0.3rem 0;
+            outline: none;
+        }
+        
+        .retention-control {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+            white-space: nowrap;
+        }
+        
+        .retention-control .input-field {
+            width: 80px;
+            padding: 0.5rem 0.75rem;
+        }
+        
+        /* Usage */
+        .usage-dashboard {
+            animation: fadeIn 0.5s ease;
+        }
+        
+        .usage-stats {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+            gap: 1rem;
+            margin-bottom: 2rem;
+        }
+        
+        .usage-stat {
+            display: flex;
+            flex-direction: column;
+            gap: 0.25rem;
+            padding: 1rem 1.25rem;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            border: 1px solid var(--border-primary);
+        }
+        
+        .usage-stat strong {
+            font-size: 1.5rem;
+            color: var(--text-primary);
+        }
+        
+        .usage-stat span,
+        .usage-note {
+            font-size: 0.8rem;
+            color: var(--text-secondary);
+        }
+        
+        .usage-section-title {
+            font-size: 1rem;
+            font-weight: 600;
+            color: var(--text-primary);
+            margin-bottom: 0.75rem;
+        }
+        
+        .usage-budget,
+        .usage-table-wrapper {
+            margin-bottom: 2rem;
+        }
+        
+        .usage-budget .input-field {
+            width: auto;
+        }
+        
+        .usage-budget-bar {
+            height: 8px;
+            border-radius: 4px;
+            background: var(--bg-tertiary);
+            overflow: hidden;
+            margin-bottom: 0.5rem;
+        }
+        
+        .usage-budget-fill {
+            height: 100%;
+            background: var(--accent-gradient);
+            transition: width 0.3s ease;
+        }
+        
+        .usage-budget-fill.exceeded {
+            background: var(--error);
+        }
+        
+        .usage-table-wrapper {
+            overflow-x: auto;
+        }
+        
+        .usage-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 0.85rem;
+        }
+        
+        .usage-table th,
+        .usage-table td {
+            padding: 0.5rem 0.75rem;
+            text-align: right;
+            border-bottom: 1px solid var(--border-primary);
+            white-space: nowrap;
+        }
+        
+        .usage-table th:first-child,
+        .usage-table td:first-child {
+            text-align: left;
+        }
+        
+        .usage-table th {
+            color: var(--text-secondary);
+            font-weight: 600;
+        }
+        
+        .usage-table .input-field {
+            width: 110px;
+            padding: 0.4rem 0.6rem;
+            text-align: right;
+        }
+        
+        .budget-warning {
+            margin-top: 1rem;
+            font-size: 0.85rem;
+            color: var(--warn);
+        }
+        
+        /* Job Queue */
+        .job-queue {
+            margin-bottom: 1.5rem;
+            padding-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border-primary);
+        }
+        
+        .job-queue-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 1rem;
+        }
+        
+        .queue-limits {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            flex-wrap: wrap;
+            margin-bottom: 1rem;
+        }
+        
+        .queue-limits .input-field {
+            width: 80px;
+            padding: 0.5rem 0.75rem;
+        }
+        
+        .queue-wait {
+            font-size: 0.8rem;
+            color: var(--warn);
+        }
+        
+        .job-list {
+            list-style: none;
+            display: flex;
+            flex-direction: column;
+            gap: 0.5rem;
+            max-height: 320px;
+            overflow-y: auto;
+        }
+        
+        .job-item {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            padding: 0.75rem 1rem;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            border: 1px solid var(--border-primary);
+        }
+        
+        .job-item.running {
+            border-color: var(--accent-primary);
+        }
+        
+        .job-item.done {
+            background: var(--success-bg);
+        }
+        
+        .job-item.failed {
+            background: var(--error-bg);
+        }
+        
+        .job-item.shown {
+            box-shadow: var(--shadow-md);
+        }
+        
+        .job-info {
+            flex: 1;
+            min-width: 0;
+            display: flex;
+            flex-direction: column;
+            gap: 0.15rem;
+        }
+        
+        .job-info strong {
+            font-size: 0.85rem;
+        }
+        
+        .job-info p {
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            font-size: 0.9rem;
+        }
+        
+        .job-info span {
+            font-size: 0.75rem;
+            color: var(--text-tertiary);
+        }
+        
+        .job-info .job-status-text {
+            color: var(--accent-primary);
+        }
+        
+        .job-info .job-stream-text {
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            font-style: italic;
+        }
+        
+        .job-info .job-error {
+            color: var(--error);
+        }
+        
+        .job-info .model-response {
+            margin-top: 0.5rem;
+            padding: 0.75rem 1rem;
+        }
+        
+        .job-info .model-response-text {
+            white-space: pre-wrap;
+        }
+        
+        .job-actions {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+        }
+        
+        /* Failed Attempts */
+        .failed-generations {
+            margin-bottom: 2rem;
+            padding-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border-primary);
+        }
+        
+        .failed-generations-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            margin-bottom: 1rem;
+        }
+        
+        .failed-list {
+            list-style: none;
+            display: flex;
+            flex-direction: column;
+            gap: 0.5rem;
+        }
+        
+        .failed-item {
             display: flex;
+            align-items: center;
             gap: 1rem;
-            flex-wrap: wrap;
+            padding: 0.75rem 1rem;
+            border-radius: 16px;
+            background: var(--error-bg);
+            border: 1px solid var(--border-primary);
         }
         
-        .output-actions .btn {
+        .failed-info {
             flex: 1;
-            min-width: 140px;
+            min-width: 0;
         }
         
-        /* History Panel */
-        .history-panel {
-            animation: fadeIn 0.5s ease;
+        .failed-info strong {
+            font-size: 0.85rem;
+            color: var(--error);
         }
         
-        .history-header {
+        .failed-info p {
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            font-size: 0.9rem;
+        }
+        
+        .failed-info span {
+            font-size: 0.75rem;
+            color: var(--text-tertiary);
+        }
+        
+        .failed-actions {
             display: flex;
-            justify-content: space-between;
             align-items: center;
-            margin-bottom: 2rem;
+            gap: 0.5rem;
         }
         
-        .history-title {
-            font-size: 1.25rem;
-            font-weight: 700;
-            color: var(--text-primary);
+        .failed-actions .btn {
+            padding: 0.4rem 0.75rem;
+            font-size: 0.8rem;
+            border-radius: 10px;
+        }
+        
+        .history-view-toggle {
+            grid-template-columns: repeat(2, 1fr);
+        }
+        
+        /* Lineage */
+        .lineage-tree,
+        .lineage-children {
+            list-style: none;
+        }
+        
+        .lineage-row {
             display: flex;
             align-items: center;
-            gap: 0.75rem;
+            gap: 1rem;
+            padding: 0.75rem;
+            margin-bottom: 0.5rem;
+            border-radius: 16px;
+            background: var(--bg-tertiary);
+            border: 1px solid var(--border-primary);
         }
         
-        .history-count {
-            background: var(--accent-gradient);
-            color: white;
-            padding: 0.25rem 0.75rem;
-            border-radius: 20px;
-            font-size: 0.875rem;
-            font-weight: 600;
+        .lineage-connector {
+            color: var(--text-tertiary);
+            font-size: 1.25rem;
         }
         
-        .history-grid {
-            display: grid;
-            grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
-            gap: 1.25rem;
+        .lineage-row img {
+            width: 64px;
+            height: 64px;
+            object-fit: cover;
+            border-radius: 12px;
+            cursor: pointer;
+            flex-shrink: 0;
         }
         
-        .history-item {
-            position: relative;
-            aspect-ratio: 1;
-            border-radius: 20px;
-            overflow: hidden;
-            cursor: pointer;
-            transition: all 0.3s var(--ease-out-quart);
-            box-shadow: var(--shadow-sm);
-            background: var(--bg-card);
-            border: 2px solid transparent;
+        .lineage-info {
+            flex: 1;
+            min-width: 0;
         }
         
-        .history-item::before {
-            content: '';
-            position: absolute;
-            inset: 0;
-            background: linear-gradient(to bottom, transparent 0%, rgba(0,0,0,0.7) 100%);
-            opacity: 0;
-            transition: opacity 0.3s ease;
-            z-index: 1;
+        .lineage-info p {
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            font-size: 0.9rem;
         }
         
-        .history-item:hover {
-            transform: translateY(-8px) scale(1.02);
-            box-shadow: var(--shadow-lg);
-            border-color: var(--accent-primary);
+        .lineage-info span {
+            font-size: 0.75rem;
+            color: var(--text-tertiary);
         }
         
-        .history-item:hover::before {
-            opacity: 1;
+        .lineage-actions {
+            display: flex;
+            gap: 0.5rem;
+            flex-wrap: wrap;
         }
         
-        .history-item img {
-            width: 100%;
-            height: 100%;
-            object-fit: cover;
-            transition: transform 0.3s ease;
+        .lineage-actions .btn {
+            padding: 0.4rem 0.75rem;
+            font-size: 0.8rem;
+            border-radius: 10px;
         }
         
-        .history-item:hover img {
-            transform: scale(1.1);
+        .lineage-compare {
+            grid-template-columns: 1fr 1fr;
         }
         
-        .history-item-number {
-            position: absolute;
-            top: 12px;
-            left: 12px;
-            background: rgba(0, 0, 0, 0.7);
-            backdrop-filter: blur(10px);
-            color: white;
-            width: 28px;
-            height: 28px;
-            border-radius: 50%;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            font-size: 0.75rem;
-            font-weight: 600;
-            z-index: 2;
-            opacity: 0;
-            transform: scale(0.8);
-            transition: all 0.3s ease;
+        .lineage-compare figcaption {
+            margin-top: 0.75rem;
+            font-size: 0.85rem;
+            color: var(--text-secondary);
         }
         
-        .history-item:hover .history-item-number {
-            opacity: 1;
-            transform: scale(1);
+        .lineage-compare figcaption strong {
+            display: block;
+            color: var(--text-primary);
         }
         
         .empty-history {
@@ -1131,6 +3687,25 @@ const App = () => {
             color: var(--text-primary);
         }
         
+        .modal-favorite-btn {
+            margin-left: auto;
+            margin-right: 0.75rem;
+            padding: 0.5rem 0.9rem;
+            background: var(--glass-bg);
+            border: 1px solid var(--border-primary);
+            border-radius: 12px;
+            color: var(--text-secondary);
+            font-size: 0.875rem;
+            cursor: pointer;
+            transition: all 0.2s ease;
+        }
+        
+        .modal-favorite-btn:hover,
+        .modal-favorite-btn.active {
+            color: var(--warn);
+            border-color: var(--warn);
+        }
+        
         .modal-close-btn {
             width: 40px;
             height: 40px;
@@ -1154,63 +3729,192 @@ const App = () => {
             border-color: var(--error);
         }
         
-        .modal-body {
-            padding: 2rem;
-            flex: 1;
-            display: grid;
-            grid-template-columns: 2fr 1fr;
-            gap: 2rem;
-            background: var(--bg-primary);
+        .modal-body {
+            padding: 2rem;
+            flex: 1;
+            display: grid;
+            grid-template-columns: 2fr 1fr;
+            gap: 2rem;
+            background: var(--bg-primary);
+            overflow-y: auto;
+            align-items: start;
+        }
+        
+        .modal-image-wrapper {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            min-height: 0; /* Fix for flexbox in grid */
+        }
+
+        .modal-image {
+            max-width: 100%;
+            height: auto;
+            object-fit: contain;
+            border-radius: 16px;
+            box-shadow: var(--shadow-lg);
+        }
+
+        .modal-details {
+            padding: 1.5rem;
+            background: var(--bg-tertiary);
+            border-radius: 16px;
+            border: 1px solid var(--border-primary);
+        }
+
+        .modal-details h3 {
+            margin-bottom: 1.5rem;
+            font-weight: 700;
+            border-bottom: 1px solid var(--border-primary);
+            padding-bottom: 1rem;
+        }
+
+        .detail-item {
+            margin-bottom: 1rem;
+        }
+
+        .detail-item strong {
+            display: block;
+            font-size: 0.8rem;
+            color: var(--text-secondary);
+            margin-bottom: 0.25rem;
+            text-transform: uppercase;
+            letter-spacing: 0.05em;
+        }
+
+        .detail-thumbnails {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+        }
+
+        .detail-thumbnails img {
+            width: 64px;
+            height: 64px;
+            object-fit: cover;
+            border-radius: 8px;
+            border: 1px solid var(--border-primary);
+        }
+
+        .detail-item p {
+            font-size: 0.95rem;
+            color: var(--text-primary);
+            word-wrap: break-word;
+        }
+        
+        /* Download Dialog */
+        .download-dialog {
+            max-width: 560px;
+        }
+        
+        .shortcuts-dialog {
+            max-width: 480px;
+        }
+        
+        .project-dialog {
+            max-width: 520px;
+        }
+        
+        .project-options {
+            padding: 1.5rem 2rem;
+            overflow-y: auto;
+            background: var(--bg-primary);
+        }
+        
+        .project-options .form-group {
+            margin-bottom: 1.25rem;
+        }
+        
+        .project-hint {
+            margin-top: 0.5rem;
+            font-size: 0.8rem;
+            color: var(--text-tertiary);
+        }
+        
+        .project-switcher {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+        }
+        
+        .project-switcher .input-field {
+            width: auto;
+            max-width: 220px;
+            padding: 0.6rem 0.9rem;
+        }
+        
+        .history-actions .project-transfer {
+            width: auto;
+            padding: 0.6rem 0.9rem;
+            font-size: 0.9rem;
+        }
+        
+        .shortcuts-list {
+            list-style: none;
+            padding: 1.5rem 2rem;
+            display: flex;
+            flex-direction: column;
+            gap: 0.75rem;
+            background: var(--bg-primary);
+        }
+        
+        .shortcuts-list li {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            font-size: 0.9rem;
+            color: var(--text-secondary);
+        }
+        
+        .shortcut-keys {
+            display: flex;
+            gap: 0.25rem;
+            min-width: 110px;
+        }
+        
+        .shortcut-keys kbd {
+            padding: 0.2rem 0.5rem;
+            border-radius: 6px;
+            border: 1px solid var(--border-primary);
+            background: var(--bg-tertiary);
+            color: var(--text-primary);
+            font-family: inherit;
+            font-size: 0.8rem;
+        }
+        
+        .download-options {
+            padding: 1.5rem 2rem;
             overflow-y: auto;
-            align-items: start;
+            background: var(--bg-primary);
         }
         
-        .modal-image-wrapper {
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            min-height: 0; /* Fix for flexbox in grid */
-        }
-
-        .modal-image {
-            max-width: 100%;
-            height: auto;
-            object-fit: contain;
-            border-radius: 16px;
-            box-shadow: var(--shadow-lg);
+        .download-options .form-group {
+            margin-bottom: 1.25rem;
         }
-
-        .modal-details {
-            padding: 1.5rem;
-            background: var(--bg-tertiary);
-            border-radius: 16px;
-            border: 1px solid var(--border-primary);
+        
+        .download-options .aspect-ratio-selector {
+            grid-template-columns: repeat(4, 1fr);
         }
-
-        .modal-details h3 {
-            margin-bottom: 1.5rem;
-            font-weight: 700;
-            border-bottom: 1px solid var(--border-primary);
-            padding-bottom: 1rem;
+        
+        .download-options .checkbox-label {
+            margin-bottom: 1.25rem;
         }
-
-        .detail-item {
-            margin-bottom: 1rem;
+        
+        .download-size-row {
+            display: flex;
+            gap: 0.75rem;
         }
-
-        .detail-item strong {
-            display: block;
+        
+        .download-hint {
+            margin-top: 0.5rem;
             font-size: 0.8rem;
-            color: var(--text-secondary);
-            margin-bottom: 0.25rem;
-            text-transform: uppercase;
-            letter-spacing: 0.05em;
+            color: var(--text-tertiary);
+            word-break: break-all;
         }
-
-        .detail-item p {
-            font-size: 0.95rem;
-            color: var(--text-primary);
-            word-wrap: break-word;
+        
+        .download-error {
+            font-size: 0.85rem;
+            color: var(--error);
         }
         
         .modal-footer {
@@ -1272,6 +3976,24 @@ const App = () => {
             <h1>Re-imaginator</h1>
           </div>
           <div className="header-actions">
+            <ProjectSwitcher
+              projects={projects}
+              activeId={activeProject.id}
+              onSwitch={handleSwitchProject}
+              onCreate={() => setEditingProject({
+                project: { id: `project-${Date.now()}`, name: '', createdAt: Date.now(), defaults: {} },
+                isNew: true,
+              })}
+              onEdit={() => setEditingProject({ project: activeProject, isNew: false })}
+            />
+            <button 
+              className="theme-toggle" 
+              onClick={() => setIsShortcutsOpen(true)} 
+              aria-label="Show keyboard shortcuts"
+              title="Keyboard shortcuts (?)"
+            >
+              ⌨️
+            </button>
             <button 
               className="theme-toggle" 
               onClick={toggleTheme} 
@@ -1297,6 +4019,20 @@ const App = () => {
             <span className="tab-icon">📚</span>
             History
           </button>
+          <button 
+            className={`tab-button ${activeTab === 'session' ? 'active' : ''}`} 
+            onClick={() => setActiveTab('session')}
+          >
+            <span className="tab-icon">💬</span>
+            Sessions
+          </button>
+          <button 
+            className={`tab-button ${activeTab === 'usage' ? 'active' : ''}`} 
+            onClick={() => setActiveTab('usage')}
+          >
+            <span className="tab-icon">📊</span>
+            Usage
+          </button>
         </nav>
 
         {activeTab === 'generator' && (
@@ -1308,7 +4044,7 @@ const App = () => {
                   <h2 className="card-title">Creation Studio</h2>
                 </div>
                 
-                <form onSubmit={handleSubmit}>
+                <form ref={generatorFormRef} onSubmit={handleSubmit}>
                   <div className="form-group">
                     <label className="form-label">
                       <span className="form-label-icon">📸</span>
@@ -1325,16 +4061,41 @@ const App = () => {
                       <input 
                         id="image-upload" 
                         type="file" 
-                        accept="image/*" 
+                        accept={SUPPORTED_UPLOAD_TYPES.join(',')} 
                         onChange={handleImageChange} 
                         multiple 
-                        disabled={baseImages.length >= 3} 
+                        disabled={baseImages.length >= 3 || isPreparingImages} 
                       />
                       {baseImagePreviews.length > 0 ? (
                         <div className="image-preview-container">
                           {baseImagePreviews.map((src, index) => (
                             <div key={src} className="preview-item">
-                              <img src={src} alt={`Preview ${index + 1}`} />
+                              <img
+                                src={src}
+                                alt={`Preview ${index + 1}`}
+                                onLoad={(e) => {
+                                  const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                                  setPreviewSizes(prev => ({ ...prev, [src]: { width, height } }));
+                                }}
+                              />
+                              {mask?.imageIndex === index && (
+                                <span className="mask-badge">Masked</span>
+                              )}
+                              {baseImages[index] && (
+                                <span className="preview-size-badge">
+                                  {previewSizes[src] && `${previewSizes[src].width}×${previewSizes[src].height} · `}
+                                  {formatBytes(baseImages[index].size)}
+                                </span>
+                              )}
+                              <button 
+                                type="button" 
+                                className="mask-image-btn" 
+                                onClick={(e) => { e.preventDefault(); setMaskEditorIndex(index); }} 
+                                aria-label={`Paint mask on image ${index + 1}`}
+                                title="Paint a mask to edit only part of this image"
+                              >
+                                🖌️
+                              </button>
                               <button 
                                 type="button" 
                                 className="remove-image-btn" 
@@ -1349,8 +4110,12 @@ const App = () => {
                       ) : (
                         <div className="upload-placeholder">
                           <div className="upload-icon">📤</div>
-                          <div className="upload-text">Drop images here or click to browse</div>
-                          <div className="upload-subtext">Upload up to 3 images • JPG, PNG, GIF</div>
+                          <div className="upload-text">
+                            {isPreparingImages ? 'Preparing images...' : 'Drop, paste or click to browse'}
+                          </div>
+                          <div className="upload-subtext">
+                            Upload up to 3 images • JPG, PNG, WebP • resized to {uploadLimits.maxDimension}px, under {uploadLimits.maxMegabytes} MB
+                          </div>
                         </div>
                       )}
                     </label>
@@ -1361,14 +4126,53 @@ const App = () => {
                       <span className="form-label-icon">✏️</span>
                       Creative Prompt
                     </label>
+                    <PromptLibrary
+                      prompt={prompt}
+                      templateUsage={templateUsage}
+                      styles={styles}
+                      onTemplateChange={handleTemplateChange}
+                      onStylesChange={setStyles}
+                    />
                     <textarea 
                       id="prompt" 
                       className="input-field" 
                       placeholder="Describe your vision... (e.g., 'Transform into a cyberpunk cityscape with neon lights')" 
                       value={prompt} 
-                      onChange={(e) => setPrompt(e.target.value)} 
+                      onChange={(e) => handlePromptChange(e.target.value)} 
                       rows={5}
                     />
+                    {activeProject.defaults.promptPreamble?.trim() && (
+                      <p className="project-hint" title={activeProject.defaults.promptPreamble}>
+                        📁 The "{activeProject.name}" preamble is added in front of this prompt.
+                      </p>
+                    )}
+                    <div className="prompt-tools">
+                      <button
+                        type="button"
+                        className="chip-btn"
+                        onClick={handleEnhancePrompt}
+                        disabled={isEnhancing || !prompt.trim() || enhancementProposal !== null}
+                        title={enhancementProposal ? 'Accept or dismiss the suggestion first' : 'Rewrite the prompt into a richer, more specific one'}
+                      >
+                        {isEnhancing ? '⏳ Enhancing...' : '✨ Enhance'}
+                      </button>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={enhanceWithImages}
+                          onChange={(e) => setEnhanceWithImages(e.target.checked)}
+                        />
+                        Let it see the base images
+                      </label>
+                    </div>
+                    {enhancementProposal && (
+                      <PromptEnhancer
+                        draft={enhancementProposal.draft}
+                        proposal={enhancementProposal.proposal}
+                        onAccept={handleAcceptEnhancement}
+                        onReject={() => setEnhancementProposal(null)}
+                      />
+                    )}
                   </div>
                   
                   <div className="form-group">
@@ -1377,16 +4181,59 @@ const App = () => {
                       Aspect Ratio
                     </label>
                     <div className="aspect-ratio-selector">
-                      {(['1:1', '16:9', '9:16'] as const).map(ratio => (
+                      {PRESET_ASPECT_RATIOS.map(ratio => (
                         <button
                           key={ratio}
                           type="button"
-                          className={`aspect-ratio-btn ${aspectRatio === ratio ? 'active' : ''}`}
-                          onClick={() => setAspectRatio(ratio)}
+                          className={`aspect-ratio-btn ${!isCustomRatio && aspectRatio === ratio ? 'active' : ''}`}
+                          onClick={() => { setAspectRatio(ratio); setIsCustomRatio(false); }}
                         >
                           {ratio}
                         </button>
                       ))}
+                      <button
+                        type="button"
+                        className={`aspect-ratio-btn ${isCustomRatio ? 'active' : ''}`}
+                        onClick={() => setIsCustomRatio(true)}
+                      >
+                        Custom
+                      </button>
+                    </div>
+                    {isCustomRatio && (
+                      <div className="custom-ratio">
+                        <input
+                          type="number"
+                          min={1}
+                          className="input-field"
+                          aria-label="Custom ratio width"
+                          value={customRatio.width}
+                          onChange={(e) => setCustomRatio(prev => ({ ...prev, width: e.target.value }))}
+                        />
+                        <span>:</span>
+                        <input
+                          type="number"
+                          min={1}
+                          className="input-field"
+                          aria-label="Custom ratio height"
+                          value={customRatio.height}
+                          onChange={(e) => setCustomRatio(prev => ({ ...prev, height: e.target.value }))}
+                        />
+                      </div>
+                    )}
+                    <div className="ratio-correction">
+                      <span>If the model misses the ratio:</span>
+                      <div className="aspect-ratio-selector">
+                        {RATIO_CORRECTION_MODES.map(({ mode, label }) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            className={`aspect-ratio-btn ${ratioCorrectionMode === mode ? 'active' : ''}`}
+                            onClick={() => setRatioCorrectionMode(mode)}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
                     </div>
                   </div>
                   
@@ -1405,18 +4252,113 @@ const App = () => {
                     />
                   </div>
                   
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="variations">
+                      <span className="form-label-icon">🧬</span>
+                      Variations
+                    </label>
+                    <div className="variation-controls">
+                      <input
+                        id="variations"
+                        type="range"
+                        min={1}
+                        max={MAX_VARIATIONS}
+                        value={variationCount}
+                        onChange={(e) => setVariationCount(Number(e.target.value))}
+                      />
+                      <span className="variation-count">{variationCount}</span>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={varySeeds}
+                          onChange={(e) => setVarySeeds(e.target.checked)}
+                          disabled={variationCount === 1}
+                        />
+                        Different seed per variation
+                      </label>
+                    </div>
+                  </div>
+                  
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="provider">
+                      <span className="form-label-icon">🔌</span>
+                      Provider
+                    </label>
+                    <select
+                      id="provider"
+                      className="input-field"
+                      value={providerId}
+                      onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                    >
+                      {Object.values(providers).map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  
+                  <AdvancedSettings
+                    models={getProvider(providerId).models}
+                    settings={advancedSettings.settings}
+                    profile={advancedSettings.profile}
+                    onChange={handleAdvancedSettingsChange}
+                  />
+                  
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="upload-max-dimension">
+                      <span className="form-label-icon">🗜️</span>
+                      Upload Limits
+                    </label>
+                    <div className="upload-limits">
+                      <label className="checkbox-label" htmlFor="upload-max-dimension">
+                        Max side (px)
+                        <input
+                          id="upload-max-dimension"
+                          type="number"
+                          min={256}
+                          className="input-field"
+                          value={uploadLimits.maxDimension}
+                          onChange={(e) => handleUploadLimitChange({ maxDimension: Number(e.target.value) })}
+                        />
+                      </label>
+                      <label className="checkbox-label" htmlFor="upload-max-megabytes">
+                        Max size (MB)
+                        <input
+                          id="upload-max-megabytes"
+                          type="number"
+                          min={0.5}
+                          step={0.5}
+                          className="input-field"
+                          value={uploadLimits.maxMegabytes}
+                          onChange={(e) => handleUploadLimitChange({ maxMegabytes: Number(e.target.value) })}
+                        />
+                      </label>
+                    </div>
+                  </div>
+                  
+                  <div className="form-group">
+                    <label className="form-label" htmlFor="timeout">
+                      <span className="form-label-icon">⏱️</span>
+                      Timeout (seconds)
+                    </label>
+                    <input
+                      id="timeout"
+                      type="number"
+                      min={5}
+                      className="input-field"
+                      value={timeoutSeconds}
+                      onChange={(e) => handleTimeoutChange(e.target.value)}
+                    />
+                  </div>
+                  
                   <button 
                     type="submit" 
                     className="btn btn-primary" 
-                    disabled={isLoading || baseImages.length === 0 || !prompt}
+                    disabled={baseImages.length === 0 || !prompt}
                   >
-                    {isLoading ? (
+                    {jobs.some(job => job.status === 'pending' || job.status === 'running') ? (
                       <>
-                        <div className="loader" style={{width: '20px', height: '20px'}}>
-                          <div className="loader-ring"></div>
-                          <div className="loader-ring"></div>
-                        </div>
-                        Generating Magic...
+                        <span className="btn-icon">➕</span>
+                        Add to Queue
                       </>
                     ) : (
                       <>
@@ -1426,6 +4368,13 @@ const App = () => {
                     )}
                   </button>
 
+                  {isOverBudget && (
+                    <p className="budget-warning">
+                      Over your {budget.period === 'day' ? 'daily' : 'monthly'} budget: {formatCost(budgetSpent)} of ${budget.limit.toFixed(2)}
+                      {budget.action === 'block' ? ' — new generations are blocked.' : '.'}
+                    </p>
+                  )}
+
                   {error && (
                     <div className="error-message" role="alert">
                       <span className="error-icon">⚠️</span>
@@ -1441,41 +4390,145 @@ const App = () => {
                   <h2 className="card-title">Generated Artwork</h2>
                 </div>
                 
+                {jobs.length > 0 && (
+                  <JobQueue
+                    jobs={jobs}
+                    settings={queueSettings}
+                    now={queueNow}
+                    waitingUntil={queueWaitUntil}
+                    shownJobId={shownJobId}
+                    onSettingsChange={handleQueueSettingsChange}
+                    onMove={(id, direction) => setJobs(prev => moveJob(prev, id, direction))}
+                    onCancel={handleCancelJob}
+                    onRetry={handleRetryJob}
+                    onShow={(id) => {
+                      const job = jobs.find(candidate => candidate.id === id);
+                      if (job) showJobResults(job);
+                    }}
+                    onClearFinished={handleClearFinishedJobs}
+                  />
+                )}
+                
                 <div className={`output-container ${generatedImage ? 'has-image' : ''}`}>
-                  {isLoading && (
+                  {!generatedImage && runningJob && (
                     <div className="loading-container">
                       <div className="loader">
                         <div className="loader-ring"></div>
                         <div className="loader-ring"></div>
                       </div>
-                      <div className="loading-text">AI is crafting your masterpiece...</div>
+                      <div className="loading-text">{runningJob.statusText || 'AI is crafting your masterpiece...'}</div>
+                      {runningJob.startedAt && (
+                        <div className="loading-elapsed">
+                          {((queueNow - runningJob.startedAt) / 1000).toFixed(1)}s elapsed · times out at {timeoutSeconds}s
+                        </div>
+                      )}
+                      {runningJob.streamText && <p className="loading-stream">{runningJob.streamText}</p>}
+                      <button type="button" className="btn btn-danger" onClick={() => handleCancelJob(runningJob.id)}>
+                        <span>⏹️</span> Cancel
+                      </button>
                     </div>
                   )}
                   
-                  {!isLoading && !generatedImage && (
+                  {!generatedImage && !runningJob && (
                     <div className="output-placeholder">
                       <div className="placeholder-icon">🎨</div>
                       <div className="placeholder-text">Your AI-generated artwork will appear here</div>
                     </div>
                   )}
                   
-                  {generatedImage && !isLoading && (
-                    <img src={generatedImage} alt="Generated by AI" className="generated-image" />
+                  {generatedImage && (
+                    isComparing && variationBaseUrls.length > 0 ? (
+                      <CompareViewer beforeUrls={variationBaseUrls} afterUrl={generatedImage} />
+                    ) : (
+                      <img src={generatedImage} alt="Generated by AI" className="generated-image" />
+                    )
                   )}
                 </div>
+
+                {modelResponse && (
+                  <ModelResponseNotes response={modelResponse} hasImage={Boolean(generatedImage)} />
+                )}
+
+                {variations.length > 1 && (
+                  <>
+                    <div className="variation-grid">
+                      {variations.map((variation, index) => (
+                        <div
+                          key={variation.id}
+                          className={`variation-item ${variation.url === generatedImage ? 'active' : ''} ${variation.selected ? 'selected' : ''}`}
+                          onClick={() => showVariation(variation)}
+                          title={`Seed: ${variation.request.seed || 'random'}`}
+                        >
+                          <img src={variation.url} alt={`Variation ${index + 1}`} />
+                          <input
+                            type="checkbox"
+                            className="variation-select"
+                            checked={variation.selected}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={() => toggleVariationSelected(variation.id)}
+                            aria-label={`Select variation ${index + 1}`}
+                          />
+                          {variation.historyId && <span className="variation-saved">Saved</span>}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="output-actions">
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleSaveVariations(true)}
+                        disabled={!variations.some(variation => variation.selected && !variation.historyId)}
+                      >
+                        <span>⭐</span> Save Selected
+                      </button>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleSaveVariations(false)}
+                        disabled={variations.every(variation => variation.historyId)}
+                      >
+                        <span>📥</span> Save All
+                      </button>
+                    </div>
+                  </>
+                )}
                 
-                {generatedImage && !isLoading && (
+                {generatedImage && (
                   <div className="output-actions">
                     <button 
                       className="btn btn-secondary" 
-                      onClick={() => handleImprovise(generatedImage)} 
+                      onClick={() => handleImprovise(generatedImage, currentVariation?.historyId)} 
                       title="Use as new base image"
                     >
                       <span>🔄</span> Improvise
                     </button>
+                    <button 
+                      className="btn btn-secondary" 
+                      onClick={handleStartSessionFromOutput} 
+                      disabled={!currentVariation}
+                      title="Keep refining this image in a multi-turn chat"
+                    >
+                      <span>💬</span> Continue in Chat
+                    </button>
+                    <button 
+                      className="btn btn-secondary" 
+                      onClick={() => setIsComparing(prev => !prev)} 
+                      disabled={variationBaseUrls.length === 0}
+                      title="Compare with the base image"
+                    >
+                      <span>⚖️</span> {isComparing ? 'Show Result' : 'Compare'}
+                    </button>
+                    <button 
+                      className="btn btn-secondary" 
+                      onClick={() => handleCopyImage(generatedImage)} 
+                      title="Copy to the clipboard as PNG"
+                    >
+                      <span>📋</span> {copiedImageUrl === generatedImage ? 'Copied!' : 'Copy'}
+                    </button>
                     <button 
                       className="btn btn-success" 
-                      onClick={() => handleDownload(generatedImage)}
+                      onClick={() => setDownloadTarget({
+                        imageUrl: generatedImage,
+                        metadata: currentVariation ? toImageMetadata({ ...currentVariation.request, id: currentVariation.historyId }) : undefined,
+                      })}
                     >
                       <span>💾</span> Download
                     </button>
@@ -1489,53 +4542,259 @@ const App = () => {
         {activeTab === 'history' && (
           <div className="tab-content">
             <div className="card history-panel">
-              {history.length > 0 ? (
+              {failedGenerations.length > 0 && (
+                <FailedGenerations
+                  failures={failedGenerations}
+                  onRetry={handleRetryFailure}
+                  onDismiss={(id) => handleDismissFailures([id])}
+                  onDismissAll={() => handleDismissFailures(failedGenerations.map(failure => failure.id))}
+                />
+              )}
+              {isHistoryLoading ? (
+                <div className="empty-history">
+                  <div className="empty-history-icon">⏳</div>
+                  <div className="empty-history-text">Loading your creations...</div>
+                </div>
+              ) : projectHistory.length > 0 ? (
                 <>
                   <div className="history-header">
                     <div className="history-title">
                       <span>🕐</span>
-                      Recent Creations
-                      <span className="history-count">{history.length}</span>
+                      {activeProject.name}
+                      <span className="history-count">
+                        {historyView === 'grid' && isHistoryFiltered ? `${visibleHistory.length} / ${projectHistory.length}` : projectHistory.length}
+                      </span>
                     </div>
-                    <button 
-                      className="btn btn-danger" 
-                      onClick={handleClearHistory}
-                      style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem'}}
-                    >
-                      <span>🗑️</span> Clear All
-                    </button>
-                  </div>
-                  
-                  <div className="history-grid">
-                    {history.map((item, index) => (
-                      <div 
-                        key={item.id} 
-                        className="history-item" 
-                        onClick={() => setSelectedHistoryItem(item)} 
-                        title={`Prompt: ${item.prompt}`}
-                      >
-                        <img src={item.generatedImage} alt="Generated history item" />
-                        <div className="history-item-number">{index + 1}</div>
+                    <div className="history-actions">
+                      <div className="aspect-ratio-selector history-view-toggle">
+                        <button
+                          type="button"
+                          className={`aspect-ratio-btn ${historyView === 'grid' ? 'active' : ''}`}
+                          onClick={() => setHistoryView('grid')}
+                        >
+                          Grid
+                        </button>
+                        <button
+                          type="button"
+                          className={`aspect-ratio-btn ${historyView === 'lineage' ? 'active' : ''}`}
+                          onClick={() => setHistoryView('lineage')}
+                        >
+                          Lineage
+                        </button>
                       </div>
-                    ))}
+                      <label className="retention-control" htmlFor="retention-limit" title="Applies to each project separately. Favorites are always kept and don't count toward the limit">
+                        Keep last
+                        <input
+                          id="retention-limit"
+                          type="number"
+                          min={1}
+                          className="input-field"
+                          value={retentionLimit}
+                          onChange={(e) => handleRetentionChange(e.target.value)}
+                        />
+                      </label>
+                      <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={handleToggleSelecting}
+                        style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem'}}
+                      >
+                        {isSelectingHistory ? 'Done' : 'Select'}
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={handleExportHistory}
+                        disabled={isTransferringHistory}
+                        title="Download as a .zip bundle"
+                        style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem'}}
+                      >
+                        <span>⬇️</span> {selectedHistoryIds.length > 0 ? `Export ${selectedHistoryIds.length}` : 'Export Project'}
+                      </button>
+                      {selectedHistoryIds.length > 0 && projects.length > 1 && (
+                        <>
+                          <select
+                            className="input-field project-transfer"
+                            value=""
+                            onChange={(e) => handleTransferSelected(e.target.value, 'move')}
+                            aria-label="Move selected items to another project"
+                          >
+                            <option value="" disabled>Move to…</option>
+                            {projects.filter(project => project.id !== activeProject.id).map(project => (
+                              <option key={project.id} value={project.id}>{project.name}</option>
+                            ))}
+                          </select>
+                          <select
+                            className="input-field project-transfer"
+                            value=""
+                            onChange={(e) => handleTransferSelected(e.target.value, 'copy')}
+                            aria-label="Copy selected items to another project"
+                          >
+                            <option value="" disabled>Copy to…</option>
+                            {projects.filter(project => project.id !== activeProject.id).map(project => (
+                              <option key={project.id} value={project.id}>{project.name}</option>
+                            ))}
+                          </select>
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={() => bundleInputRef.current?.click()}
+                        disabled={isTransferringHistory}
+                        title="Merge a .zip bundle into this project"
+                        style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem'}}
+                      >
+                        <span>⬆️</span> Import
+                      </button>
+                      <button 
+                        className="btn btn-danger" 
+                        onClick={handleClearHistory}
+                        style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem'}}
+                      >
+                        <span>🗑️</span> Clear All
+                      </button>
+                    </div>
                   </div>
+                  
+                  {historyView === 'grid' ? (
+                    <>
+                      <HistoryToolbar
+                        filters={historyFilters}
+                        sort={historySort}
+                        facets={historyFacetValues}
+                        isFiltered={isHistoryFiltered}
+                        onFiltersChange={handleHistoryFiltersChange}
+                        onSortChange={setHistorySort}
+                        onReset={() => setHistoryFilters(EMPTY_HISTORY_FILTERS)}
+                      />
+                      {visibleHistory.length > 0 ? (
+                        <div className="history-grid">
+                          {visibleHistory.map((item, index) => (
+                            <div 
+                              key={item.id} 
+                              className={`history-item ${selectedHistoryIds.includes(item.id) ? 'selected' : ''}`}
+                              onClick={() => isSelectingHistory ? toggleHistorySelection(item.id) : setSelectedHistoryItem(item)} 
+                              title={`Prompt: ${item.prompt}`}
+                            >
+                              <img src={item.generatedImageUrl} alt="Generated history item" />
+                              <div className="history-item-number">{index + 1}</div>
+                              {selectedHistoryIds.includes(item.id) && <div className="history-item-check">✓</div>}
+                              <button
+                                type="button"
+                                className={`history-item-star ${item.favorite ? 'active' : ''}`}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  toggleFavorite(item);
+                                }}
+                                aria-pressed={Boolean(item.favorite)}
+                                aria-label={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                              >
+                                {item.favorite ? '★' : '☆'}
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="empty-history">
+                          <div className="empty-history-icon">🔍</div>
+                          <div className="empty-history-text">No creations match these filters.</div>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <LineageView
+                      history={projectHistory}
+                      comparePair={lineageComparePair}
+                      onCompare={setLineageComparePair}
+                      onSelect={setSelectedHistoryItem}
+                      onBranch={(item) => handleImprovise(item.generatedImageUrl, item.id)}
+                    />
+                  )}
                 </>
               ) : (
                 <div className="empty-history">
                   <div className="empty-history-icon">📭</div>
-                  <div className="empty-history-text">No creations yet. Start generating!</div>
+                  <div className="empty-history-text">No creations in "{activeProject.name}" yet. Start generating!</div>
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={() => bundleInputRef.current?.click()}
+                    disabled={isTransferringHistory}
+                    style={{padding: '0.75rem 1.5rem', fontSize: '0.9rem', marginTop: '1.5rem'}}
+                  >
+                    <span>⬆️</span> Import a history bundle
+                  </button>
                 </div>
               )}
+              <input ref={bundleInputRef} type="file" accept="application/zip,.zip" onChange={handleImportHistory} hidden />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'session' && (
+          <div className="tab-content">
+            <EditSessionPanel
+              session={activeSession}
+              sessions={sessions}
+              isLoading={isLoading}
+              progress={progress}
+              onSend={handleSessionSend}
+              onCancel={handleCancel}
+              onOpenSession={handleOpenSession}
+              onCloseSession={() => setActiveSession(null)}
+            />
+            {error && (
+              <div className="error-message" role="alert">
+                <span className="error-icon">⚠️</span>
+                {error}
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'usage' && (
+          <div className="tab-content">
+            <div className="card">
+              <UsageDashboard
+                entries={usageEntries}
+                models={Object.values(providers).flatMap(provider => [...provider.models, provider.enhancerModel])}
+                prices={priceTable}
+                budget={budget}
+                spent={budgetSpent}
+                sessionTitles={Object.fromEntries(sessions.map(session => [session.id, session.title]))}
+                onPricesChange={handlePriceTableChange}
+                onBudgetChange={handleBudgetChange}
+                onReset={handleResetUsage}
+              />
             </div>
           </div>
         )}
       </main>
 
+      {maskEditorIndex !== null && baseImagePreviews[maskEditorIndex] && (
+        <MaskEditor
+          imageUrl={baseImagePreviews[maskEditorIndex]}
+          initialMask={mask?.imageIndex === maskEditorIndex ? mask.blob : null}
+          onSave={handleMaskSave}
+          onCancel={() => setMaskEditorIndex(null)}
+        />
+      )}
+
       {selectedHistoryItem && (
         <div className="modal-overlay" onClick={() => setSelectedHistoryItem(null)}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
             <div className="modal-header">
               <h3 className="modal-title">Creation Details</h3>
+              <button
+                type="button"
+                className={`modal-favorite-btn ${selectedHistoryItem.favorite ? 'active' : ''}`}
+                onClick={() => toggleFavorite(selectedHistoryItem)}
+                aria-pressed={Boolean(selectedHistoryItem.favorite)}
+                title={selectedHistoryItem.favorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                {selectedHistoryItem.favorite ? '★ Favorite' : '☆ Favorite'}
+              </button>
               <button 
                 className="modal-close-btn" 
                 onClick={() => setSelectedHistoryItem(null)} 
@@ -1547,11 +4806,15 @@ const App = () => {
             
             <div className="modal-body">
               <div className="modal-image-wrapper">
-                <img 
-                  src={selectedHistoryItem.generatedImage} 
-                  alt="Selected artwork" 
-                  className="modal-image" 
-                />
+                {isModalComparing ? (
+                  <CompareViewer beforeUrls={selectedHistoryItem.baseImageUrls} afterUrl={selectedHistoryItem.generatedImageUrl} />
+                ) : (
+                  <img 
+                    src={selectedHistoryItem.generatedImageUrl} 
+                    alt="Selected artwork" 
+                    className="modal-image" 
+                  />
+                )}
               </div>
               <div className="modal-details">
                 <h3>Details</h3>
@@ -1563,26 +4826,186 @@ const App = () => {
                     <strong>Aspect Ratio</strong>
                     <p>{selectedHistoryItem.aspectRatio}</p>
                 </div>
+                {selectedHistoryItem.ratioCorrection?.applied && (
+                    <div className="detail-item">
+                        <strong>Ratio Correction</strong>
+                        <p>
+                          {RATIO_CORRECTION_MODES.find(({ mode }) => mode === selectedHistoryItem.ratioCorrection!.mode)?.label} applied
+                          (model returned {selectedHistoryItem.ratioCorrection.originalWidth}×{selectedHistoryItem.ratioCorrection.originalHeight})
+                        </p>
+                    </div>
+                )}
                 {selectedHistoryItem.seed && (
                     <div className="detail-item">
                         <strong>Seed</strong>
                         <p>{selectedHistoryItem.seed}</p>
                     </div>
                 )}
+                {selectedHistoryItem.baseImageUrls.length > 0 && (
+                    <div className="detail-item">
+                        <strong>Base Images</strong>
+                        <div className="detail-thumbnails">
+                          {selectedHistoryItem.baseImageUrls.map((src, index) => (
+                            <img key={src} src={src} alt={`Base image ${index + 1}`} />
+                          ))}
+                        </div>
+                    </div>
+                )}
+                {selectedHistoryItem.response && (
+                    <ModelResponseNotes response={selectedHistoryItem.response} hasImage />
+                )}
+                {selectedHistoryItem.mask && (
+                    <div className="detail-item">
+                        <strong>Inpainting</strong>
+                        <p>Masked edit of base image {selectedHistoryItem.mask.imageIndex + 1}</p>
+                    </div>
+                )}
+                {selectedHistoryItem.originalPrompt && (
+                    <div className="detail-item">
+                        <strong>Original Draft</strong>
+                        <p>{selectedHistoryItem.originalPrompt}</p>
+                    </div>
+                )}
+                {selectedHistoryItem.enhancedPrompt && selectedHistoryItem.enhancedPrompt !== selectedHistoryItem.prompt && (
+                    <div className="detail-item">
+                        <strong>Enhanced Prompt</strong>
+                        <p>{selectedHistoryItem.enhancedPrompt}</p>
+                    </div>
+                )}
+                {selectedHistoryItem.template && (
+                    <div className="detail-item">
+                        <strong>Template</strong>
+                        <p>{selectedHistoryItem.template.templateName}</p>
+                    </div>
+                )}
+                {selectedHistoryItem.styles && (
+                    <div className="detail-item">
+                        <strong>Styles</strong>
+                        <p>{selectedHistoryItem.styles.join(', ')}</p>
+                    </div>
+                )}
+                {selectedHistoryItem.parentId && (
+                    <div className="detail-item">
+                        <strong>Derived From</strong>
+                        {selectedParent ? (
+                          <div className="detail-thumbnails">
+                            <img
+                              src={selectedParent.generatedImageUrl}
+                              alt="Parent creation"
+                              style={{ cursor: 'pointer' }}
+                              onClick={() => setSelectedHistoryItem(selectedParent)}
+                            />
+                          </div>
+                        ) : (
+                          <p>An earlier creation that is no longer in history</p>
+                        )}
+                    </div>
+                )}
+                <div className="detail-item">
+                    <strong>Model</strong>
+                    <p>{getProvider(selectedHistoryItem.provider).label} · {selectedHistoryItem.model}</p>
+                </div>
+                {(selectedHistoryItem.settingsProfile || describeSamplingConfig(selectedHistoryItem.config)) && (
+                    <div className="detail-item">
+                        <strong>Settings</strong>
+                        <p>
+                          {selectedHistoryItem.settingsProfile ? `Profile "${selectedHistoryItem.settingsProfile.name}"` : 'Custom'}
+                          {describeSamplingConfig(selectedHistoryItem.config) && ` · ${describeSamplingConfig(selectedHistoryItem.config)}`}
+                        </p>
+                    </div>
+                )}
+                {selectedHistoryItem.usage && (
+                    <div className="detail-item">
+                        <strong>Usage</strong>
+                        <p>
+                          {selectedHistoryItem.usage.promptTokens.toLocaleString()} in · {selectedHistoryItem.usage.outputTokens.toLocaleString()} out
+                          · {(selectedHistoryItem.usage.latencyMs / 1000).toFixed(1)}s
+                          · {formatCost(estimateCost(selectedHistoryItem.usage, selectedHistoryItem.model, priceTable))}
+                        </p>
+                    </div>
+                )}
+                <div className="detail-item">
+                    <strong>Created</strong>
+                    <p>{new Date(selectedHistoryItem.createdAt).toLocaleString()}</p>
+                </div>
+                {projects.length > 1 && (
+                    <div className="detail-item">
+                        <strong>Project</strong>
+                        <select
+                          className="input-field"
+                          value={projectIdOf(selectedHistoryItem)}
+                          onChange={(e) => moveHistoryItems([selectedHistoryItem], e.target.value)
+                            .catch(err => console.error("Failed to move history item:", err))}
+                          aria-label="Move to project"
+                        >
+                          {projects.map(project => (
+                            <option key={project.id} value={project.id}>{project.name}</option>
+                          ))}
+                        </select>
+                    </div>
+                )}
+                <div className="detail-item">
+                    <strong>Tags</strong>
+                    <TagEditor
+                      tags={selectedHistoryItem.tags ?? []}
+                      suggestions={historyFacetValues.tags}
+                      onChange={(tags) => updateHistoryItem(selectedHistoryItem.id, { tags })}
+                    />
+                </div>
               </div>
             </div>
             
             <div className="modal-footer">
               <button 
                 className="btn btn-secondary" 
-                onClick={() => handleImprovise(selectedHistoryItem.generatedImage)} 
+                onClick={() => handleImprovise(selectedHistoryItem.generatedImageUrl, selectedHistoryItem.id)} 
                 title="Use as new base image"
               >
                 <span>🔄</span> Improvise
               </button>
+              {selectedHistoryItem.baseImageUrls.length > 0 && (
+                <button 
+                  className="btn btn-secondary" 
+                  onClick={() => setIsModalComparing(prev => !prev)} 
+                  title="Compare with the base image"
+                >
+                  <span>⚖️</span> {isModalComparing ? 'Show Result' : 'Compare'}
+                </button>
+              )}
+              {selectedHistoryItem.sessionId ? (
+                <button 
+                  className="btn btn-secondary" 
+                  onClick={() => handleOpenSession(selectedHistoryItem.sessionId!)} 
+                  title="Resume the editing session this image belongs to"
+                >
+                  <span>💬</span> Open Session
+                </button>
+              ) : (
+                <button 
+                  className="btn btn-secondary" 
+                  onClick={() => startSession(selectedHistoryItem, selectedHistoryItem.generatedImage, selectedHistoryItem.response, selectedHistoryItem.id)} 
+                  title="Keep refining this image in a multi-turn chat"
+                >
+                  <span>💬</span> Continue in Chat
+                </button>
+              )}
+              <button 
+                className="btn btn-secondary" 
+                onClick={() => handleRegenerate(selectedHistoryItem)} 
+                title="Run again with the exact model, config and prompt"
+              >
+                <span>🔁</span> Regenerate with same settings
+              </button>
+              <button 
+                className="btn btn-secondary" 
+                onClick={() => handleCopyImage(selectedHistoryItem.generatedImageUrl)} 
+                title="Copy to the clipboard as PNG"
+              >
+                <span>📋</span> {copiedImageUrl === selectedHistoryItem.generatedImageUrl ? 'Copied!' : 'Copy'}
+              </button>
               <button 
                 className="btn btn-success" 
-                onClick={() => handleDownload(selectedHistoryItem.generatedImage)}
+                onClick={() => setDownloadTarget({ imageUrl: selectedHistoryItem.generatedImageUrl, metadata: toImageMetadata(selectedHistoryItem) })}
               >
                 <span>💾</span> Download
               </button>
@@ -1590,6 +5013,29 @@ const App = () => {
           </div>
         </div>
       )}
+
+      {downloadTarget && (
+        <DownloadDialog
+          imageUrl={downloadTarget.imageUrl}
+          metadata={downloadTarget.metadata}
+          onDownload={handleDownload}
+          onClose={() => setDownloadTarget(null)}
+        />
+      )}
+
+      {editingProject && (
+        <ProjectDialog
+          project={editingProject.project}
+          isNew={editingProject.isNew}
+          providers={Object.values(providers).map(({ id, label }) => ({ id, label }))}
+          profiles={loadSettingsProfiles()}
+          onSave={handleSaveProject}
+          onDelete={editingProject.project.id === DEFAULT_PROJECT.id ? undefined : () => handleDeleteProject(editingProject.project)}
+          onClose={() => setEditingProject(null)}
+        />
+      )}
+
+      {isShortcutsOpen && <ShortcutsHelp onClose={() => setIsShortcutsOpen(false)} />}
     </>
   );
 };
@@ -0,0 +1,74 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createApiMiddleware } from './proxy';
+
+// --- Standalone production server: the built app from dist/ plus the API route ---
+const PORT = Number(process.env.PORT) || 8080;
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR ?? 'dist');
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+};
+
+const optionalNumber = (value?: string) => (value ? Number(value) : undefined);
+
+const api = createApiMiddleware({
+  apiKey: process.env.GEMINI_API_KEY,
+  baseUrl: process.env.GEMINI_BASE_URL,
+  maxBodyMegabytes: optionalNumber(process.env.API_MAX_BODY_MB),
+  requestsPerMinute: optionalNumber(process.env.API_REQUESTS_PER_MINUTE),
+  // TRUST_PROXY=true means a single reverse proxy; a number gives the count of proxies in the chain.
+  trustedProxies: process.env.TRUST_PROXY === 'true' ? 1 : optionalNumber(process.env.TRUST_PROXY),
+});
+
+// Serves files from the build; unknown paths get index.html so the app can load.
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    // Malformed percent-escapes, e.g. "/%E0%A4%A".
+    res.writeHead(400).end();
+    return;
+  }
+  const filePath = path.join(STATIC_DIR, path.normalize(decoded));
+  if (!filePath.startsWith(STATIC_DIR)) {
+    res.writeHead(403).end();
+    return;
+  }
+  try {
+    const body = await readFile(filePath);
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+    res.end(body);
+  } catch {
+    try {
+      const body = await readFile(path.join(STATIC_DIR, 'index.html'));
+      res.writeHead(200, { 'Content-Type': MIME_TYPES['.html'] });
+      res.end(body);
+    } catch (err) {
+      console.error("Failed to serve the app:", err);
+      res.writeHead(404).end('Run `npm run build` first.');
+    }
+  }
+};
+
+createServer((req, res) => {
+  api(req, res, () => serveStatic(req, res)).catch(err => {
+    console.error("Request failed:", err);
+    if (!res.headersSent) res.writeHead(500);
+    res.end();
+  });
+}).listen(PORT, () => {
+  console.log(`Serving ${STATIC_DIR} and the API on http://localhost:${PORT}`);
+});
@@ -0,0 +1,224 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateContentConfig } from "@google/genai";
+import { ENHANCER_INSTRUCTION, ENHANCER_MODEL, geminiProvider } from '../services/providers/gemini';
+import type { GenerateApiChunk, GenerateApiRequest } from '../services/providers/types';
+import { RATE_WINDOW_MS, rateLimitDelay } from '../utils/jobQueue';
+
+export const GENERATE_ROUTE = '/api/generate';
+
+export type ApiServerOptions = {
+  apiKey?: string;
+  baseUrl?: string; // upstream override, e.g. a local stand-in for testing
+  maxBodyMegabytes?: number;
+  requestsPerMinute?: number; // per client address
+  // Reverse proxies in front of this server; the client address is read that many entries
+  // from the right of X-Forwarded-For. 0 ignores the header.
+  trustedProxies?: number;
+};
+
+export const DEFAULT_API_SERVER_OPTIONS = {
+  maxBodyMegabytes: 20,
+  requestsPerMinute: 30,
+  trustedProxies: 0,
+};
+
+// The key is only spent on the models the app offers; the enhancer's system instruction is
+// added here rather than taken from the request.
+const ALLOWED_MODELS = new Set([...geminiProvider.models, ENHANCER_MODEL]);
+
+// Only generation settings are forwarded; anything else (httpOptions in particular could
+// redirect the upstream call, key included, and systemInstruction would turn the route into
+// a general-purpose relay) is dropped.
+const FORWARDED_CONFIG_KEYS: (keyof GenerateContentConfig)[] = [
+  'responseModalities',
+  'seed',
+  'temperature',
+  'topP',
+  'topK',
+  'maxOutputTokens',
+  'stopSequences',
+  'safetySettings',
+];
+
+// Awaited, so a rejection from an async fallback (server/index.ts) reaches the caller's catch.
+type Next = (err?: unknown) => void | Promise<void>;
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const sendError = (res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: { message, status } }));
+};
+
+// Rejects as soon as the declared or received size passes the limit; the caller answers
+// with Connection: close so the rest of the upload is never read.
+const readBody = (req: IncomingMessage, maxBytes: number) =>
+  new Promise<string>((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `Request body exceeds the ${maxBytes / (1024 * 1024)} MB limit.`);
+    if (Number(req.headers['content-length']) > maxBytes) {
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const parseRequest = (body: string): GenerateApiRequest => {
+  let parsed: GenerateApiRequest;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+  if (typeof parsed?.model !== 'string' || typeof parsed.prompt !== 'string' || !Array.isArray(parsed.parts)) {
+    throw new HttpError(400, 'Expected a JSON body with "model", "prompt" and "parts".');
+  }
+  if (!ALLOWED_MODELS.has(parsed.model)) {
+    throw new HttpError(400, `Model "${parsed.model}" is not available through this server.`);
+  }
+  return parsed;
+};
+
+// The wire config uses the API's string values, which the SDK types as enums.
+const pickConfig = (config: GenerateApiRequest['config'] = {}): GenerateContentConfig =>
+  Object.fromEntries(FORWARDED_CONFIG_KEYS.filter(key => key in config).map(key => [key, config[key as keyof typeof config]]));
+
+// Upstream SDK errors carry the HTTP status; anything else is reported as a bad gateway.
+const upstreamStatus = (err: unknown) => {
+  const status = (err as { status?: unknown })?.status;
+  return typeof status === 'number' && status >= 400 ? status : 502;
+};
+
+/**
+ * Connect-style middleware serving `POST /api/generate`. It holds the Gemini
+ * key, so the browser never sees it, and streams the model's chunks back as
+ * NDJSON. Bodies over the size limit get 413 and clients over their
+ * per-minute budget get 429 with Retry-After. Other routes fall through to `next`.
+ */
+export const createApiMiddleware = (options: ApiServerOptions) => {
+  const { apiKey, baseUrl, maxBodyMegabytes, requestsPerMinute, trustedProxies } = { ...DEFAULT_API_SERVER_OPTIONS, ...options };
+  const maxBytes = maxBodyMegabytes * 1024 * 1024;
+  const requestTimes = new Map<string, number[]>();
+
+  // Each proxy appends the address it saw, so only entries counted from the right can be
+  // trusted; anything further left was sent by the client and may be forged.
+  const clientAddress = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustedProxies > 0 && typeof forwarded === 'string') {
+      const hops = forwarded.split(',').map(entry => entry.trim()).filter(Boolean);
+      const address = hops[Math.max(0, hops.length - trustedProxies)];
+      if (address) return address;
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  // Returns how long the client must wait, or 0 after recording the request.
+  const takeRateLimitSlot = (client: string) => {
+    const now = Date.now();
+    for (const [address, times] of requestTimes) {
+      const recent = times.filter(time => time > now - RATE_WINDOW_MS);
+      if (recent.length > 0) requestTimes.set(address, recent);
+      else requestTimes.delete(address);
+    }
+    const times = requestTimes.get(client) ?? [];
+    const delay = rateLimitDelay(times, now, requestsPerMinute, 1);
+    if (delay === 0) requestTimes.set(client, [...times, now]);
+    return delay;
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (pathname !== GENERATE_ROUTE) {
+      if (next) await next();
+      else sendError(res, 404, 'Not found.');
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'Use POST.', { Allow: 'POST' });
+      return;
+    }
+
+    const delay = takeRateLimitSlot(clientAddress(req));
+    if (delay > 0) {
+      const seconds = Math.ceil(delay / 1000);
+      sendError(res, 429, `Too many requests from this client. Please retry in ${seconds}s.`, { 'Retry-After': String(seconds) });
+      return;
+    }
+    if (!apiKey) {
+      sendError(res, 401, 'No Gemini API key is configured on the server.');
+      return;
+    }
+
+    let request: GenerateApiRequest;
+    try {
+      request = parseRequest(await readBody(req, maxBytes));
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 400;
+      sendError(res, status, err instanceof Error ? err.message : 'Could not read the request.', { Connection: 'close' });
+      return;
+    }
+
+    // Stop the upstream call when the browser goes away (Cancel, timeout or a closed tab).
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const ai = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+      const chat = ai.chats.create({ model: request.model, history: request.history ?? [] });
+      const stream = await chat.sendMessageStream({
+        message: [...request.parts, { text: request.prompt }],
+        config: {
+          ...pickConfig(request.config),
+          ...(request.model === ENHANCER_MODEL ? { systemInstruction: ENHANCER_INSTRUCTION } : {}),
+          abortSignal: controller.signal,
+        },
+      });
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+      try {
+        for await (const chunk of stream) {
+          const line: GenerateApiChunk = {
+            candidates: chunk.candidates,
+            promptFeedback: chunk.promptFeedback,
+            usageMetadata: chunk.usageMetadata,
+          };
+          res.write(`${JSON.stringify(line)}\n`);
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        const line: GenerateApiChunk = {
+          error: { message: err instanceof Error ? err.message : String(err), status: upstreamStatus(err) },
+        };
+        res.write(`${JSON.stringify(line)}\n`);
+      }
+      res.end();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Upstream generation failed:", err);
+      sendError(res, upstreamStatus(err), err instanceof Error ? err.message : 'Upstream request failed.');
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { createServer } from 'node:http';
+
+// --- Local stand-in for the Gemini API, for exercising the proxy without a key or network ---
+// Point the proxy at it with GEMINI_BASE_URL=http://localhost:8790 (any GEMINI_API_KEY works).
+const PORT = Number(process.env.STUB_PORT) || 8790;
+
+// 1x1 transparent PNG, returned when the request carries no image to echo back.
+const BLANK_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+type StubPart = { text?: string; inlineData?: { data: string; mimeType: string } };
+
+/**
+ * Answers `generateContent` and `streamGenerateContent` by echoing the first
+ * image of the latest user turn with a short text part. A prompt containing
+ * `[stub:<status>]` (e.g. `[stub:429]`) gets that HTTP error instead.
+ */
+createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const match = pathname.match(/\/models\/([^/:]+):(streamGenerateContent|generateContent)$/);
+    if (req.method !== 'POST' || !match) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 404, message: `No stub for ${req.method} ${pathname}`, status: 'NOT_FOUND' } }));
+      return;
+    }
+
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    const parts: StubPart[] = body.contents?.at(-1)?.parts ?? [];
+    const prompt = parts.map(part => part.text ?? '').join(' ').trim();
+    const forcedStatus = prompt.match(/\[stub:(\d{3})\]/);
+    if (forcedStatus) {
+      const code = Number(forcedStatus[1]);
+      res.writeHead(code, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code, message: `Stub error ${code}. Please retry in 2s.`, status: 'STUB_ERROR' } }));
+      return;
+    }
+
+    const image = parts.find(part => part.inlineData)?.inlineData ?? { data: BLANK_PNG, mimeType: 'image/png' };
+    const response = {
+      candidates: [{
+        content: { role: 'model', parts: [{ text: `Stub upstream (${match[1]}) received: ${prompt.slice(0, 80)}` }, { inlineData: image }] },
+        finishReason: 'STOP',
+      }],
+      usageMetadata: { promptTokenCount: prompt.length, candidatesTokenCount: 1, totalTokenCount: prompt.length + 1 },
+    };
+    if (match[2] === 'streamGenerateContent') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end(`data: ${JSON.stringify(response)}\r\n\r\n`);
+    } else {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`Stub Gemini upstream listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,156 @@
+import type { GenerationConfig, HistoryRecord } from '../types';
+import { isProviderId } from './providers';
+import { extensionForMimeType } from '../utils/imageMetadata';
+import { createZip, readZip } from '../utils/zip';
+import type { ZipEntry } from '../utils/zip';
+
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+// --- Manifest shape: the record fields, with every Blob swapped for a file in the archive ---
+type BundleFile = {
+  path: string;
+  type: string;
+};
+
+type BundleItem = Omit<HistoryRecord, 'generatedImage' | 'baseImages' | 'mask'> & {
+  contentHash: string;
+  generatedImage: BundleFile;
+  baseImages: BundleFile[];
+  mask?: { imageIndex: number; file: BundleFile };
+};
+
+type BundleManifest = {
+  version: number;
+  exportedAt: number;
+  items: BundleItem[];
+};
+
+export type BundleImportResult = {
+  added: HistoryRecord[];
+  skipped: number;
+  // Manifest items that were malformed or named an unknown provider.
+  invalid: number;
+};
+
+// --- Manifest validation: bundles are user files, so check every field the UI relies on ---
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === 'number';
+
+const isGenerationConfig = (value: unknown): value is GenerationConfig => {
+  const config = value as GenerationConfig;
+  return typeof config === 'object' && config !== null
+    && Array.isArray(config.responseModalities)
+    && isOptionalNumber(config.seed)
+    && isOptionalNumber(config.temperature)
+    && isOptionalNumber(config.topP)
+    && isOptionalNumber(config.topK)
+    && (config.safetySettings === undefined || Array.isArray(config.safetySettings));
+};
+
+const isBundleFile = (value: unknown): value is BundleFile => {
+  const file = value as BundleFile;
+  return typeof file?.path === 'string' && typeof file.type === 'string';
+};
+
+const isBundleItem = (value: unknown): value is BundleItem => {
+  const item = value as BundleItem;
+  return typeof item?.id === 'string'
+    && typeof item.createdAt === 'number'
+    && typeof item.prompt === 'string'
+    && typeof item.seed === 'string'
+    && typeof item.aspectRatio === 'string'
+    && typeof item.model === 'string'
+    && isProviderId(item.provider)
+    && isGenerationConfig(item.config)
+    && isBundleFile(item.generatedImage)
+    && Array.isArray(item.baseImages) && item.baseImages.every(isBundleFile)
+    && (item.mask === undefined || (typeof item.mask.imageIndex === 'number' && isBundleFile(item.mask.file)))
+    && (item.response === undefined || Array.isArray(item.response.text))
+    && (item.tags === undefined || (Array.isArray(item.tags) && item.tags.every(tag => typeof tag === 'string')));
+};
+
+/** Hex SHA-256 of a blob, used to spot the same image saved under a different id. */
+export const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Packs records into a .zip holding `manifest.json` plus every generated, base and mask image. */
+export const exportHistoryBundle = async (records: HistoryRecord[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const addFile = async (path: string, blob: Blob): Promise<BundleFile> => {
+    const file = { path: `${path}.${extensionForMimeType(blob.type)}`, type: blob.type };
+    entries.push({ name: file.path, data: new Uint8Array(await blob.arrayBuffer()) });
+    return file;
+  };
+
+  const items: BundleItem[] = [];
+  for (const { generatedImage, baseImages, mask, ...fields } of records) {
+    const folder = `images/${fields.id}`;
+    items.push({
+      ...fields,
+      contentHash: await hashBlob(generatedImage),
+      generatedImage: await addFile(`${folder}/generated`, generatedImage),
+      baseImages: await Promise.all(baseImages.map((blob, index) => addFile(`${folder}/base-${index + 1}`, blob))),
+      mask: mask && { imageIndex: mask.imageIndex, file: await addFile(`${folder}/mask`, mask.blob) },
+    });
+  }
+
+  const manifest: BundleManifest = { version: BUNDLE_VERSION, exportedAt: Date.now(), items };
+  entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+/**
+ * Reads a bundle and returns the records that are not already in `existing`.
+ * An item is a duplicate when its id is taken or its generated image has the
+ * same content hash as one already stored (or earlier in the same bundle).
+ * Items that fail validation are counted in `invalid` and left out.
+ */
+export const importHistoryBundle = async (file: Blob, existing: HistoryRecord[]): Promise<BundleImportResult> => {
+  const files = readZip(await file.arrayBuffer());
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new Error('This .zip is not a history bundle (manifest.json is missing).');
+
+  const manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as BundleManifest;
+  if (!Array.isArray(manifest?.items)) throw new Error('The bundle manifest is not readable.');
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error('This bundle was exported by a newer version of the app.');
+  }
+
+  const toBlob = ({ path, type }: BundleFile) => {
+    const data = files.get(path);
+    if (!data) throw new Error(`The bundle is missing "${path}".`);
+    return new Blob([data], { type });
+  };
+
+  const knownIds = new Set(existing.map(record => record.id));
+  const knownHashes = new Set(await Promise.all(existing.map(record => hashBlob(record.generatedImage))));
+  const added: HistoryRecord[] = [];
+  let skipped = 0;
+  let invalid = 0;
+
+  for (const item of manifest.items) {
+    if (!isBundleItem(item)) {
+      invalid++;
+      continue;
+    }
+    const { contentHash: _contentHash, generatedImage, baseImages, mask, ...fields } = item;
+    const image = toBlob(generatedImage);
+    // Rehash rather than trust the manifest, so an edited bundle cannot slip in a duplicate.
+    const hash = await hashBlob(image);
+    if (knownIds.has(fields.id) || knownHashes.has(hash)) {
+      skipped++;
+      continue;
+    }
+    knownIds.add(fields.id);
+    knownHashes.add(hash);
+    added.push({
+      ...fields,
+      generatedImage: image,
+      baseImages: baseImages.map(toBlob),
+      mask: mask && { imageIndex: mask.imageIndex, blob: toBlob(mask.file) },
+    });
+  }
+  return { added, skipped, invalid };
+};
@@ -0,0 +1,242 @@
+import type { EditSession, FailedGeneration, HistoryItem, HistoryRecord, UsageEntry } from '../types';
+import { DEFAULT_PROJECT } from './settings';
+
+const DB_NAME = 're-imaginator';
+const DB_VERSION = 4;
+const HISTORY_STORE = 'history';
+const SESSION_STORE = 'sessions';
+const FAILURE_STORE = 'failures';
+const USAGE_STORE = 'usage';
+const RETENTION_KEY = 're-imaginator:history-retention';
+
+export const DEFAULT_RETENTION_LIMIT = 50;
+
+// --- Promise wrappers around the IndexedDB request/transaction callbacks ---
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// The connection is opened on first use and shared by every later call.
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(FAILURE_STORE)) {
+          const store = db.createObjectStore(FAILURE_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          const store = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// --- Conversion between stored records and display items ---
+export const toHistoryItem = (record: HistoryRecord): HistoryItem => ({
+  ...record,
+  generatedImageUrl: URL.createObjectURL(record.generatedImage),
+  baseImageUrls: record.baseImages.map(blob => URL.createObjectURL(blob)),
+});
+
+export const toHistoryRecord = ({ generatedImageUrl, baseImageUrls, ...record }: HistoryItem): HistoryRecord => record;
+
+export const revokeHistoryItemUrls = (item: HistoryItem) => {
+  URL.revokeObjectURL(item.generatedImageUrl);
+  item.baseImageUrls.forEach(url => URL.revokeObjectURL(url));
+};
+
+// --- Retention limit (kept in localStorage so it is readable before the DB opens) ---
+export const getRetentionLimit = (): number => {
+  const stored = Number(localStorage.getItem(RETENTION_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_RETENTION_LIMIT;
+};
+
+export const setRetentionLimit = (limit: number) => {
+  localStorage.setItem(RETENTION_KEY, String(limit));
+};
+
+// --- History CRUD ---
+/** Loads every stored record, newest first. */
+export const loadHistoryRecords = async (): Promise<HistoryRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const records = await requestToPromise<HistoryRecord[]>(tx.objectStore(HISTORY_STORE).index('createdAt').getAll());
+  return records.reverse();
+};
+
+export const saveHistoryRecord = async (record: HistoryRecord) => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(record);
+  await transactionDone(tx);
+};
+
+/** Stores several records in one transaction (used when importing a bundle). */
+export const saveHistoryRecords = async (records: HistoryRecord[]) => {
+  if (records.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
+
+export const deleteHistoryRecords = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// Deletes everything in a store beyond its newest `limit` entries (by `createdAt`), counted
+// separately for each `groupOf` key. `isProtected` entries are always kept and do not count
+// toward the limit.
+const pruneStore = async (
+  storeName: string,
+  limit: number,
+  isProtected: (value: unknown) => boolean = () => false,
+  groupOf: (value: unknown) => string = () => '',
+): Promise<string[]> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const removed: string[] = [];
+  const kept = new Map<string, number>();
+  const cursorRequest = tx.objectStore(storeName).index('createdAt').openCursor(null, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (isProtected(cursor.value)) {
+      cursor.continue();
+      return;
+    }
+    const group = groupOf(cursor.value);
+    const keptInGroup = kept.get(group) ?? 0;
+    if (keptInGroup < limit) {
+      kept.set(group, keptInGroup + 1);
+    } else {
+      removed.push((cursor.value as { id: string }).id);
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  return removed;
+};
+
+/**
+ * Deletes everything beyond the newest `limit` records of each project and
+ * returns the ids that were removed, so callers can drop them from state too.
+ * Favorites are never removed and do not count toward the limit.
+ */
+export const pruneHistoryRecords = (limit: number): Promise<string[]> =>
+  pruneStore(
+    HISTORY_STORE,
+    limit,
+    value => Boolean((value as HistoryRecord).favorite),
+    value => (value as HistoryRecord).projectId ?? DEFAULT_PROJECT.id,
+  );
+
+// --- Editing sessions ---
+/** Loads every stored session, most recently updated first. */
+export const loadSessions = async (): Promise<EditSession[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const sessions = await requestToPromise<EditSession[]>(tx.objectStore(SESSION_STORE).index('updatedAt').getAll());
+  return sessions.reverse();
+};
+
+export const loadSession = async (id: string): Promise<EditSession | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  return requestToPromise<EditSession | undefined>(tx.objectStore(SESSION_STORE).get(id));
+};
+
+export const saveSession = async (session: EditSession) => {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(session);
+  await transactionDone(tx);
+};
+
+// --- Failed generations (kept apart from history, since they have no image) ---
+/** Loads every logged failure, newest first. */
+export const loadFailedGenerations = async (): Promise<FailedGeneration[]> => {
+  const db = await openDb();
+  const tx = db.transaction(FAILURE_STORE, 'readonly');
+  const failures = await requestToPromise<FailedGeneration[]>(tx.objectStore(FAILURE_STORE).index('createdAt').getAll());
+  return failures.reverse();
+};
+
+/** Logs failures and keeps only the newest `limit`; returns the ids that were pruned. */
+export const saveFailedGenerations = async (failures: FailedGeneration[], limit: number): Promise<string[]> => {
+  const db = await openDb();
+  const tx = db.transaction(FAILURE_STORE, 'readwrite');
+  const store = tx.objectStore(FAILURE_STORE);
+  failures.forEach(failure => store.put(failure));
+  await transactionDone(tx);
+  return pruneStore(FAILURE_STORE, limit);
+};
+
+export const deleteFailedGenerations = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(FAILURE_STORE, 'readwrite');
+  const store = tx.objectStore(FAILURE_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+// --- Usage log (kept apart from history, so clearing history does not reset spend) ---
+/** Loads every logged provider call, newest first. */
+export const loadUsageEntries = async (): Promise<UsageEntry[]> => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readonly');
+  const entries = await requestToPromise<UsageEntry[]>(tx.objectStore(USAGE_STORE).index('createdAt').getAll());
+  return entries.reverse();
+};
+
+export const saveUsageEntry = async (entry: UsageEntry) => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).put(entry);
+  await transactionDone(tx);
+};
+
+export const clearUsageEntries = async () => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await transactionDone(tx);
+};
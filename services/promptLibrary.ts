@@ -0,0 +1,50 @@
+import type { PromptTemplate } from '../types';
+
+const TEMPLATES_KEY = 're-imaginator:prompt-templates';
+
+// One-click style fragments that compose onto whatever prompt is in the form.
+export const STYLE_CHIPS = [
+  'watercolor',
+  'product shot',
+  'cinematic lighting',
+  'studio portrait',
+  'isometric 3D render',
+  'film photography',
+  'flat vector illustration',
+  'golden hour',
+];
+
+const isPromptTemplate = (value: unknown): value is PromptTemplate => {
+  const template = value as PromptTemplate;
+  return typeof template?.id === 'string' && typeof template.name === 'string' && typeof template.body === 'string';
+};
+
+export const loadTemplates = (): PromptTemplate[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isPromptTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const exportTemplates = (templates: PromptTemplate[]) =>
+  new Blob([JSON.stringify({ version: 1, templates }, null, 2)], { type: 'application/json' });
+
+/**
+ * Parses an exported library (or a bare array of templates). Imported
+ * templates replace existing ones with the same id; the rest are appended.
+ */
+export const mergeImportedTemplates = (existing: PromptTemplate[], json: string): PromptTemplate[] => {
+  const parsed = JSON.parse(json);
+  const incoming = Array.isArray(parsed) ? parsed : parsed?.templates;
+  if (!Array.isArray(incoming) || !incoming.every(isPromptTemplate)) {
+    throw new Error('This file is not a prompt template library.');
+  }
+  const incomingIds = new Set(incoming.map(template => template.id));
+  return [...existing.filter(template => !incomingIds.has(template.id)), ...incoming];
+};
@@ -0,0 +1,171 @@
+import type { GenerationErrorKind, ModelResponse } from '../../types';
+
+// --- What each kind of failure means for the user, and what to do about it ---
+export const ERROR_GUIDANCE: Record<GenerationErrorKind, { title: string; action: string }> = {
+  auth: {
+    title: 'API key problem',
+    action: 'Check that GEMINI_API_KEY in .env.local is set and valid, then restart the dev server.',
+  },
+  quota: {
+    title: 'Rate limited or out of quota',
+    action: 'Wait a minute, generate fewer variations at once, or check your quota in Google AI Studio.',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    action: 'Rephrase the prompt or use different base images.',
+  },
+  payload: {
+    title: 'Request too large',
+    action: 'Use fewer or smaller base images, or lower the upload limits.',
+  },
+  network: {
+    title: 'Network problem',
+    action: 'Check your internet connection and try again.',
+  },
+  server: {
+    title: 'Server error',
+    action: 'The service is having trouble. Try again in a moment.',
+  },
+  timeout: {
+    title: 'Timed out',
+    action: 'Try again, or raise the timeout.',
+  },
+  unknown: {
+    title: 'Unexpected error',
+    action: 'Check the browser console for details.',
+  },
+};
+
+// Transient failures worth retrying automatically.
+const RETRYABLE_KINDS = new Set<GenerationErrorKind>(['quota', 'network', 'server']);
+
+/** A provider failure sorted into a kind, so the UI can explain it and decide whether to retry. */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly response?: ModelResponse;
+  attempts = 1;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; response?: ModelResponse; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.response = options.response;
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+// Gemini errors embed the API's JSON error body in the message; pull out the readable part.
+const extractApiMessage = (message: string) => {
+  const start = message.indexOf('{');
+  if (start < 0) return message;
+  try {
+    const body = JSON.parse(message.slice(start));
+    return body?.error?.message ?? message;
+  } catch {
+    return message;
+  }
+};
+
+// "retryDelay": "12s" in the error details, or "Please retry in 12.3s." in the text.
+const parseRetryAfter = (message: string) => {
+  const match = message.match(/retry(?:Delay"?\s*:\s*"| in )(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+// The HTTP status decides when there is one; otherwise fall back to the wording of the message.
+const kindFor = (status: number | undefined, message: string): GenerationErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 413) return 'payload';
+  if (status !== undefined && status >= 500) return 'server';
+  if (/api[ _-]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (/payload|too large|exceeds the maximum/i.test(message)) return 'payload';
+  if (/\bsafety\b|PROHIBITED_CONTENT/i.test(message)) return 'safety';
+  if (/INTERNAL|UNAVAILABLE|overloaded|DEADLINE_EXCEEDED/.test(message)) return 'server';
+  if (/failed to fetch|networkerror|load failed|network request failed|ERR_NETWORK|ERR_INTERNET/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+/** Sorts any thrown value into a `GenerationError` (returned unchanged if it already is one). */
+export const classifyError = (err: unknown): GenerationError => {
+  if (err instanceof GenerationError) return err;
+  if (err instanceof DOMException && err.name === 'TimeoutError') {
+    return new GenerationError('timeout', err.message, { cause: err });
+  }
+  const raw = err instanceof Error ? err.message : String(err);
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+  const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  const kind = offline ? 'network' : kindFor(status, raw);
+  return new GenerationError(kind, extractApiMessage(raw), { status, retryAfterMs: parseRetryAfter(raw), cause: err });
+};
+
+/** One user-facing line: what went wrong, the provider's message and the suggested action. */
+export const describeError = (err: unknown) => {
+  const error = classifyError(err);
+  const { title, action } = ERROR_GUIDANCE[error.kind];
+  const attempts = error.attempts > 1 ? ` (after ${error.attempts} attempts)` : '';
+  return `${title}${attempts}: ${error.message.replace(/\.$/, '')}. ${action}`;
+};
+
+// --- Automatic retries with exponential backoff and jitter ---
+export const RETRY_POLICY = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+export type RetryNotice = {
+  error: GenerationError;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/**
+ * Runs `task`, retrying retryable failures up to `RETRY_POLICY.maxAttempts`
+ * times. Each wait is half the exponential backoff plus a random half of it
+ * (or the server's requested delay, if longer). Aborts are never retried.
+ * The final error is a `GenerationError` carrying the number of attempts.
+ */
+export const withRetry = async <T,>(
+  task: () => Promise<T>,
+  { signal, onRetry }: { signal?: AbortSignal; onRetry?: (notice: RetryNotice) => void } = {},
+): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs } = RETRY_POLICY;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const error = classifyError(err);
+      error.attempts = attempt;
+      if (!error.retryable || attempt >= maxAttempts) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.max(error.retryAfterMs ?? 0, backoff / 2 + Math.random() * (backoff / 2));
+      onRetry?.({ error, attempt, maxAttempts, delayMs });
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,115 @@
+import type { GenerateContentResponseUsageMetadata } from '@google/genai';
+import type {
+  EnhanceResult,
+  GenerateApiChunk,
+  GenerateApiRequest,
+  ImagePart,
+  ImageProvider,
+  ProviderOptions,
+  ProviderResult,
+  ProviderUsage,
+} from './types';
+
+// Served by server/proxy.ts (Vite middleware in dev, server/index.ts in production), which holds the key.
+const GENERATE_URL = '/api/generate';
+
+// Exported for server/proxy.ts, which applies the instruction itself so clients cannot set their own.
+export const ENHANCER_MODEL = 'gemini-2.5-flash';
+export const ENHANCER_INSTRUCTION = `You rewrite short image-editing requests into detailed prompts for an image model.
+Keep the user's intent, and add concrete detail about subject, composition, lighting, colour palette, materials and style.
+If images are attached, refer to what is actually in them. Reply with the rewritten prompt only, with no preamble or quotes.`;
+
+const toProviderUsage = (metadata: GenerateContentResponseUsageMetadata): ProviderUsage => ({
+  promptTokens: metadata.promptTokenCount,
+  outputTokens: metadata.candidatesTokenCount,
+  totalTokens: metadata.totalTokenCount,
+});
+
+// Carries the HTTP status so classifyError can sort it like an SDK error.
+const apiError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+// Posts one chat turn to the API server and yields the model's chunks as they stream in.
+async function* streamGenerate(request: GenerateApiRequest, signal?: AbortSignal) {
+  const response = await fetch(GENERATE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw apiError(body?.error?.message ?? `The API server answered ${response.status} ${response.statusText}.`, response.status);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (value) buffered += value;
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const chunk: GenerateApiChunk = JSON.parse(line);
+      if ('error' in chunk) throw apiError(chunk.error.message, chunk.error.status);
+      yield chunk;
+    }
+    if (done) return;
+  }
+}
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash-image-preview',
+  models: ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image', 'gemini-2.0-flash-preview-image-generation'],
+  enhancerModel: ENHANCER_MODEL,
+
+  async enhancePrompt(draft: string, parts: ImagePart[], signal?: AbortSignal): Promise<EnhanceResult> {
+    let enhanced = '';
+    let usage: ProviderUsage | undefined;
+    const stream = streamGenerate(
+      { model: ENHANCER_MODEL, prompt: draft, parts },
+      signal,
+    );
+    for await (const chunk of stream) {
+      for (const part of chunk.candidates?.[0]?.content?.parts || []) enhanced += part.text ?? '';
+      if (chunk.usageMetadata) usage = toProviderUsage(chunk.usageMetadata);
+    }
+    enhanced = enhanced.trim();
+    if (!enhanced) throw new Error('The text model returned an empty rewrite.');
+    return { text: enhanced, usage };
+  },
+
+  async generate(parts: ImagePart[], prompt: string, options: ProviderOptions): Promise<ProviderResult> {
+    options.onProgress?.({ status: 'Sending request...' });
+    // Every request is a chat turn; one-off generations simply start with no history.
+    const stream = streamGenerate(
+      { model: options.model, prompt, parts, history: options.history ?? [], config: options.config },
+      options.signal,
+    );
+
+    // Text arrives in fragments across chunks; images arrive whole.
+    const result: ProviderResult = { images: [], text: [] };
+    let streamedText = '';
+    for await (const chunk of stream) {
+      const candidate = chunk.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        if (part.inlineData?.data) {
+          result.images.push({ data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' });
+          options.onProgress?.({ status: 'Image received' });
+        } else if (part.text) {
+          streamedText += part.text;
+          options.onProgress?.({ status: 'Receiving response...', text: streamedText });
+        }
+      }
+      result.finishReason = candidate?.finishReason ?? result.finishReason;
+      result.finishMessage = candidate?.finishMessage ?? result.finishMessage;
+      result.blockReason = chunk.promptFeedback?.blockReason ?? result.blockReason;
+      result.blockReasonMessage = chunk.promptFeedback?.blockReasonMessage ?? result.blockReasonMessage;
+      if (chunk.usageMetadata) result.usage = toProviderUsage(chunk.usageMetadata);
+    }
+    if (streamedText) result.text.push(streamedText);
+    return result;
+  },
+};
@@ -0,0 +1,62 @@
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import type { ImagePart, ImageProvider, ProviderId } from './types';
+
+export type {
+  EnhanceResult,
+  GenerateApiChunk,
+  GenerateApiRequest,
+  ImagePart,
+  ImageProvider,
+  ProviderId,
+  ProviderImage,
+  ProviderOptions,
+  ProviderProgress,
+  ProviderResult,
+  ProviderTurn,
+  ProviderUsage,
+} from './types';
+
+export { ERROR_GUIDANCE, GenerationError, classifyError, describeError, withRetry } from './errors';
+export type { RetryNotice } from './errors';
+
+const PROVIDER_KEY = 're-imaginator:provider';
+
+export const providers: Record<ProviderId, ImageProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Own keys only, so inherited names such as "toString" are not mistaken for providers.
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && Object.hasOwn(providers, value);
+
+export const getProvider = (id: ProviderId): ImageProvider => providers[id];
+
+/**
+ * The provider the form targets: the user's last choice, else IMAGE_PROVIDER
+ * from the environment, else Gemini. The key lives on the API server, so the
+ * browser cannot tell whether one is configured.
+ */
+export const getConfiguredProviderId = (): ProviderId => {
+  const stored = localStorage.getItem(PROVIDER_KEY);
+  if (isProviderId(stored)) return stored;
+  if (isProviderId(process.env.IMAGE_PROVIDER)) return process.env.IMAGE_PROVIDER;
+  return 'gemini';
+};
+
+export const setConfiguredProviderId = (id: ProviderId) => {
+  localStorage.setItem(PROVIDER_KEY, id);
+};
+
+// --- Helper function to convert a file to a base64 image part ---
+export const fileToImagePart = async (file: Blob): Promise<ImagePart> => {
+  const base64EncodedDataPromise = new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.readAsDataURL(file);
+  });
+  return {
+    inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
+  };
+};
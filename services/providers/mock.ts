@@ -0,0 +1,149 @@
+import type { EnhanceResult, ImagePart, ImageProvider, ProviderOptions, ProviderResult } from './types';
+
+const MOCK_LONG_EDGE = 1024;
+const MOCK_LATENCY_MS = 600;
+
+// --- Deterministic randomness: the same prompt and seed always draw the same picture ---
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const dimensionsFor = (aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: MOCK_LONG_EDGE, height: MOCK_LONG_EDGE };
+  return w >= h
+    ? { width: MOCK_LONG_EDGE, height: Math.round((MOCK_LONG_EDGE * h) / w) }
+    : { width: Math.round((MOCK_LONG_EDGE * w) / h), height: MOCK_LONG_EDGE };
+};
+
+const partToBitmap = async (part: ImagePart) => {
+  const bytes = Uint8Array.from(atob(part.inlineData.data), char => char.charCodeAt(0));
+  return createImageBitmap(new Blob([bytes], { type: part.inlineData.mimeType }));
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, 4);
+};
+
+/**
+ * Offline stand-in for a real model. It tints the first base image with a
+ * colour derived from the prompt and seed and stamps the prompt on top, so
+ * the whole app can be exercised without an API key or network.
+ */
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'mock-canvas-v1',
+  models: ['mock-canvas-v1'],
+  enhancerModel: 'mock-canvas-v1',
+
+  async enhancePrompt(draft: string, parts: ImagePart[], signal?: AbortSignal): Promise<EnhanceResult> {
+    await delay(MOCK_LATENCY_MS / 2, signal);
+    const subject = parts.length > 0 ? `the subject of the ${parts.length === 1 ? 'reference image' : 'reference images'}` : 'the scene';
+    const text = `${draft.trim().replace(/[.!]+$/, '')}, reimagining ${subject} with a clear focal point, balanced composition, soft directional lighting and a cohesive colour palette, highly detailed.`;
+    const promptTokens = Math.ceil(draft.length / 4) + parts.length * 258;
+    const outputTokens = Math.ceil(text.length / 4);
+    return { text, usage: { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens } };
+  },
+
+  async generate(parts: ImagePart[], prompt: string, options: ProviderOptions): Promise<ProviderResult> {
+    options.onProgress?.({ status: 'Rendering placeholder...' });
+    const seed = options.config.seed ?? 0;
+    const random = createRandom(hashString(`${prompt}#${seed}`));
+    const { width, height } = dimensionsFor(options.aspectRatio);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const hue = Math.floor(random() * 360);
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 35%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    // In a chat turn with no new images, keep working on the last image the "model" produced.
+    const source = parts[0] ?? options.history
+      ?.flatMap(entry => entry.role === 'model' ? entry.parts : [])
+      .filter((part): part is ImagePart => 'inlineData' in part)
+      .pop();
+    if (source) {
+      const bitmap = await partToBitmap(source);
+      const scale = Math.max(width / bitmap.width, height / bitmap.height);
+      const drawWidth = bitmap.width * scale;
+      const drawHeight = bitmap.height * scale;
+      ctx.globalAlpha = 0.6;
+      ctx.drawImage(bitmap, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+      ctx.globalAlpha = 1;
+      bitmap.close();
+    }
+
+    for (let i = 0; i < 12; i++) {
+      ctx.fillStyle = `hsla(${(hue + random() * 90) % 360}, 80%, 60%, 0.25)`;
+      ctx.beginPath();
+      ctx.arc(random() * width, random() * height, 20 + random() * width * 0.15, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const label = prompt.split('\n')[0];
+    ctx.font = `600 ${Math.round(width / 28)}px Inter, sans-serif`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.textBaseline = 'top';
+    wrapText(ctx, label, width * 0.85).forEach((line, index) => {
+      ctx.fillText(line, width * 0.05, height * 0.05 + index * (width / 22));
+    });
+
+    const turn = (options.history?.filter(entry => entry.role === 'user').length ?? 0) + 1;
+    const text = `Mock render for "${label}" (seed ${seed}, turn ${turn}).`;
+    options.onProgress?.({ status: 'Receiving response...', text });
+    await delay(MOCK_LATENCY_MS, options.signal);
+
+    const data = canvas.toDataURL('image/png').split(',')[1];
+    const promptTokens = Math.ceil(prompt.length / 4) + parts.length * 258;
+    return {
+      images: [{ data, mimeType: 'image/png' }],
+      text: [text],
+      finishReason: 'STOP',
+      usage: { promptTokens, outputTokens: 1290, totalTokens: promptTokens + 1290 },
+    };
+  },
+};
@@ -0,0 +1,73 @@
+import type { GenerateContentResponse } from '@google/genai';
+import type { AspectRatio, GenerationConfig, ModelResponse, ProviderId } from '../../types';
+
+// --- Type definitions shared by every image-generation provider ---
+export type { ProviderId };
+
+export type ImagePart = { inlineData: { data: string; mimeType: string } };
+
+export type ProviderImage = { data: string; mimeType: string };
+
+// One earlier message of a multi-turn conversation, in the order it happened.
+export type ProviderTurn = {
+  role: 'user' | 'model';
+  parts: (ImagePart | { text: string })[];
+};
+
+export type ProviderUsage = {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+};
+
+export type ProviderProgress = {
+  status?: string;
+  text?: string;
+};
+
+export type ProviderOptions = {
+  model: string;
+  config: GenerationConfig;
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+  history?: ProviderTurn[];
+  onProgress?: (progress: ProviderProgress) => void;
+};
+
+export type ProviderResult = ModelResponse & {
+  images: ProviderImage[];
+  usage?: ProviderUsage;
+};
+
+export type EnhanceResult = {
+  text: string;
+  usage?: ProviderUsage;
+};
+
+/** Anything that can turn base image parts plus a prompt into generated images. */
+export interface ImageProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  /** Models offered in the Advanced settings panel, default first. */
+  models: string[];
+  /** Text model behind `enhancePrompt`, for usage accounting. */
+  enhancerModel: string;
+  generate(parts: ImagePart[], prompt: string, options: ProviderOptions): Promise<ProviderResult>;
+  /** Rewrites a short draft into a richer, more specific image prompt using a text model. */
+  enhancePrompt(draft: string, parts: ImagePart[], signal?: AbortSignal): Promise<EnhanceResult>;
+}
+
+// --- Wire format between the browser and the local API server (server/proxy.ts) ---
+export type GenerateApiRequest = {
+  model: string;
+  prompt: string;
+  parts: ImagePart[];
+  history?: ProviderTurn[];
+  config?: Partial<GenerationConfig>;
+};
+
+// One NDJSON line of the streamed reply: a model chunk, or an error raised after streaming began.
+export type GenerateApiChunk =
+  | Pick<GenerateContentResponse, 'candidates' | 'promptFeedback' | 'usageMetadata'>
+  | { error: { message: string; status: number } };
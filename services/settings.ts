@@ -0,0 +1,198 @@
+import type {
+  BudgetSettings,
+  DownloadSettings,
+  GenerationSettings,
+  PriceTable,
+  Project,
+  QueueSettings,
+  SettingsProfile,
+  SettingsProfileRef,
+  UploadLimits,
+} from '../types';
+
+const TIMEOUT_KEY = 're-imaginator:timeout-seconds';
+const DOWNLOAD_SETTINGS_KEY = 're-imaginator:download-settings';
+const UPLOAD_LIMITS_KEY = 're-imaginator:upload-limits';
+const QUEUE_SETTINGS_KEY = 're-imaginator:queue-settings';
+const GENERATION_SETTINGS_KEY = 're-imaginator:generation-settings';
+const SETTINGS_PROFILES_KEY = 're-imaginator:settings-profiles';
+const PRICE_TABLE_KEY = 're-imaginator:price-table';
+const BUDGET_KEY = 're-imaginator:budget';
+const PROJECTS_KEY = 're-imaginator:projects';
+const ACTIVE_PROJECT_KEY = 're-imaginator:active-project';
+
+export const DEFAULT_TIMEOUT_SECONDS = 120;
+
+export const DEFAULT_UPLOAD_LIMITS: UploadLimits = {
+  maxDimension: 2048,
+  maxMegabytes: 4,
+};
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 2,
+  requestsPerMinute: 10,
+};
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: '',
+  safety: {},
+};
+
+// Published list prices at the time of writing; edit them in the Usage tab to match your billing.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash-image-preview': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.0-flash-preview-image-generation': { inputPerMillion: 0.1, outputPerMillion: 30 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'mock-canvas-v1': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  limit: 0,
+  period: 'month',
+  action: 'warn',
+};
+
+// Holds everything created before projects existed; it can be renamed but not deleted.
+export const DEFAULT_PROJECT: Project = {
+  id: 'default',
+  name: 'My Work',
+  createdAt: 0,
+  defaults: {},
+};
+
+export const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  format: 'original',
+  quality: 92,
+  size: 'original',
+  longEdge: 2048,
+  scale: 100,
+  filenameTemplate: 're-imagined-{timestamp}',
+};
+
+// --- Request timeout (seconds before an in-flight generation is aborted) ---
+export const getTimeoutSeconds = (): number => {
+  const stored = Number(localStorage.getItem(TIMEOUT_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_TIMEOUT_SECONDS;
+};
+
+export const setTimeoutSeconds = (seconds: number) => {
+  localStorage.setItem(TIMEOUT_KEY, String(seconds));
+};
+
+// --- Limits for uploaded base images (see utils/imagePreprocess) ---
+export const getUploadLimits = (): UploadLimits => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(UPLOAD_LIMITS_KEY) ?? '{}');
+    return { ...DEFAULT_UPLOAD_LIMITS, ...stored };
+  } catch {
+    return DEFAULT_UPLOAD_LIMITS;
+  }
+};
+
+export const setUploadLimits = (limits: UploadLimits) => {
+  localStorage.setItem(UPLOAD_LIMITS_KEY, JSON.stringify(limits));
+};
+
+// --- Last-used download dialog settings ---
+export const getDownloadSettings = (): DownloadSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DOWNLOAD_SETTINGS_KEY) ?? '{}');
+    return { ...DEFAULT_DOWNLOAD_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_DOWNLOAD_SETTINGS;
+  }
+};
+
+export const setDownloadSettings = (settings: DownloadSettings) => {
+  localStorage.setItem(DOWNLOAD_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Job queue concurrency and rate limit ---
+export const getQueueSettings = (): QueueSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUEUE_SETTINGS_KEY) ?? '{}');
+    return { ...DEFAULT_QUEUE_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_QUEUE_SETTINGS;
+  }
+};
+
+export const setQueueSettings = (settings: QueueSettings) => {
+  localStorage.setItem(QUEUE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Advanced generation settings, plus the profile they were loaded from (if unchanged) ---
+export const getGenerationSettings = (): { settings: GenerationSettings; profile: SettingsProfileRef | null } => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GENERATION_SETTINGS_KEY) ?? '{}');
+    return { settings: { ...DEFAULT_GENERATION_SETTINGS, ...stored.settings }, profile: stored.profile ?? null };
+  } catch {
+    return { settings: DEFAULT_GENERATION_SETTINGS, profile: null };
+  }
+};
+
+export const setGenerationSettings = (settings: GenerationSettings, profile: SettingsProfileRef | null) => {
+  localStorage.setItem(GENERATION_SETTINGS_KEY, JSON.stringify({ settings, profile }));
+};
+
+export const loadSettingsProfiles = (): SettingsProfile[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_PROFILES_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSettingsProfiles = (profiles: SettingsProfile[]) => {
+  localStorage.setItem(SETTINGS_PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// --- Price table and budget for the Usage tab ---
+export const getPriceTable = (): PriceTable => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRICE_TABLE_KEY) ?? 'null');
+    return stored && typeof stored === 'object' ? stored : DEFAULT_PRICE_TABLE;
+  } catch {
+    return DEFAULT_PRICE_TABLE;
+  }
+};
+
+export const setPriceTable = (prices: PriceTable) => {
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(prices));
+};
+
+export const getBudgetSettings = (): BudgetSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_KEY) ?? '{}');
+    return { ...DEFAULT_BUDGET_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_BUDGET_SETTINGS;
+  }
+};
+
+export const setBudgetSettings = (budget: BudgetSettings) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+};
+
+// --- Projects, always led by the default project ---
+export const loadProjects = (): Project[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROJECTS_KEY) ?? '[]');
+    const projects: Project[] = Array.isArray(parsed) ? parsed : [];
+    return projects.some(project => project.id === DEFAULT_PROJECT.id) ? projects : [DEFAULT_PROJECT, ...projects];
+  } catch {
+    return [DEFAULT_PROJECT];
+  }
+};
+
+export const saveProjects = (projects: Project[]) => {
+  localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+};
+
+export const getActiveProjectId = (): string => localStorage.getItem(ACTIVE_PROJECT_KEY) ?? DEFAULT_PROJECT.id;
+
+export const setActiveProjectId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+};
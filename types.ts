@@ -0,0 +1,296 @@
+// --- Type definition for aspect ratio (a preset or any custom `W:H`) ---
+export type AspectRatio = `${number}:${number}`;
+
+// --- Type definitions for how a mismatched output ratio gets corrected ---
+export type RatioCorrectionMode = 'crop' | 'letterbox' | 'outpaint';
+
+export type RatioCorrection = {
+  mode: RatioCorrectionMode;
+  applied: boolean;
+  originalWidth: number;
+  originalHeight: number;
+};
+
+// --- Type definition for the available image-generation providers ---
+export type ProviderId = 'gemini' | 'mock';
+
+// --- Type definitions for per-category safety filtering ---
+export type SafetyCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT';
+
+export type SafetyThreshold =
+  | 'BLOCK_LOW_AND_ABOVE'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_NONE'
+  | 'OFF';
+
+export type SafetySetting = {
+  category: SafetyCategory;
+  threshold: SafetyThreshold;
+};
+
+// --- Type definition for the generation config sent to the model ---
+export type GenerationConfig = {
+  responseModalities: string[];
+  seed?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  safetySettings?: SafetySetting[];
+};
+
+// --- Type definitions for the Advanced settings panel and its named profiles ---
+export type GenerationSettings = {
+  model: string; // '' means the provider's default model
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  safety: Partial<Record<SafetyCategory, SafetyThreshold>>; // missing categories keep the model default
+};
+
+export type SettingsProfile = {
+  id: string;
+  name: string;
+  settings: GenerationSettings;
+  createdAt: number;
+};
+
+// What a request records about the profile it ran with.
+export type SettingsProfileRef = Pick<SettingsProfile, 'id' | 'name'>;
+
+// --- Type definition for an inpainting mask on one of the base images ---
+export type InpaintMask = {
+  imageIndex: number;
+  blob: Blob;
+};
+
+// --- Type definition for everything needed to (re-)run a generation exactly ---
+export type GenerationRequest = {
+  baseImages: Blob[];
+  prompt: string;
+  seed: string;
+  aspectRatio: AspectRatio;
+  ratioCorrectionMode: RatioCorrectionMode;
+  provider: ProviderId;
+  model: string;
+  config: GenerationConfig;
+  finalPrompt: string;
+  mask?: InpaintMask;
+  sessionId?: string;
+  template?: TemplateUsage;
+  styles?: string[];
+  // The named Advanced settings profile that was active, if any.
+  settingsProfile?: SettingsProfileRef;
+  // Set when the prompt came from an accepted "Enhance" rewrite.
+  originalPrompt?: string;
+  enhancedPrompt?: string;
+  // Lineage: the item this one was derived from, and the first item of its chain.
+  parentId?: string;
+  rootId?: string;
+  // The project the result is filed under; missing means the default project.
+  projectId?: string;
+};
+
+// --- Type definition for the generation settings embedded in downloaded files ---
+export type ImageMetadata = {
+  id?: string;
+  prompt: string;
+  seed: string;
+  aspectRatio: AspectRatio;
+  provider: ProviderId;
+  model: string;
+  parentId?: string;
+  createdAt?: number;
+};
+
+// --- Type definition for the limits applied to uploaded base images ---
+export type UploadLimits = {
+  maxDimension: number; // pixels on the long edge
+  maxMegabytes: number; // per-image payload budget
+};
+
+// --- Type definitions for the download dialog ---
+export type DownloadFormat = 'original' | 'image/png' | 'image/jpeg' | 'image/webp';
+
+export type DownloadSize = 'original' | 'long-edge' | 'scale';
+
+export type DownloadSettings = {
+  format: DownloadFormat;
+  quality: number; // 1-100, used by JPEG and WebP
+  size: DownloadSize;
+  longEdge: number; // pixels, when size is 'long-edge'
+  scale: number; // percent, when size is 'scale'
+  filenameTemplate: string;
+};
+
+// --- Type definitions for the prompt template library ---
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  body: string;
+  createdAt: number;
+};
+
+export type TemplateUsage = {
+  templateId: string;
+  templateName: string;
+  variables: Record<string, string>;
+};
+
+// --- Type definitions for a conversational editing session ---
+export type ChatTurn = {
+  role: 'user' | 'model';
+  text: string;
+  images: Blob[];
+  historyId?: string;
+};
+
+export type EditSession = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  title: string;
+  provider: ProviderId;
+  model: string;
+  config: GenerationConfig;
+  aspectRatio: AspectRatio;
+  turns: ChatTurn[];
+  projectId?: string;
+};
+
+// --- Type definition for what the model said besides the image ---
+export type ModelResponse = {
+  text: string[];
+  finishReason?: string;
+  finishMessage?: string;
+  blockReason?: string;
+  blockReasonMessage?: string;
+};
+
+// --- Type definitions for a generation that failed after all retries ---
+export type GenerationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'payload'
+  | 'network'
+  | 'server'
+  | 'timeout'
+  | 'unknown';
+
+export type FailedGeneration = {
+  id: string;
+  createdAt: number;
+  request: GenerationRequest;
+  kind: GenerationErrorKind;
+  message: string;
+  attempts: number;
+};
+
+// --- Type definitions for the generation job queue ---
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type GenerationJob = {
+  id: string;
+  createdAt: number;
+  requests: GenerationRequest[]; // one per variation, snapshotted at submit time
+  status: JobStatus;
+  statusText?: string;
+  streamText?: string; // model text streamed so far by the latest call
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  response?: ModelResponse; // the reply behind a failure, e.g. text-only or blocked
+};
+
+export type QueueSettings = {
+  concurrency: number; // jobs running at the same time
+  requestsPerMinute: number; // provider calls started per rolling minute
+};
+
+// --- Type definitions for token usage, latency and payload size of provider calls ---
+export type GenerationUsage = {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  requestBytes: number;
+  responseBytes: number;
+};
+
+// One provider call, logged whether or not it produced an image.
+export type UsageEntry = GenerationUsage & {
+  id: string;
+  createdAt: number;
+  provider: ProviderId;
+  model: string;
+  sessionId?: string;
+};
+
+// USD per million tokens; image output is billed as output tokens.
+export type ModelPrice = {
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type BudgetSettings = {
+  limit: number; // USD per period; 0 turns the budget off
+  period: 'day' | 'month';
+  action: 'warn' | 'block';
+};
+
+// --- Type definition for a persisted history record (stored in IndexedDB) ---
+export type HistoryRecord = GenerationRequest & {
+  id: string;
+  createdAt: number;
+  generatedImage: Blob;
+  ratioCorrection?: RatioCorrection;
+  response?: ModelResponse;
+  // Summed over every provider call that went into this image (e.g. an outpaint pass).
+  usage?: GenerationUsage;
+  // Favorites survive "Clear All" and retention pruning.
+  favorite?: boolean;
+  tags?: string[];
+};
+
+// --- Type definitions for projects, which split history and carry their own form defaults ---
+export type ProjectDefaults = {
+  aspectRatio?: AspectRatio;
+  // Added in front of every prompt submitted while the project is active.
+  promptPreamble?: string;
+  provider?: ProviderId;
+  settingsProfileId?: string;
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  createdAt: number;
+  defaults: ProjectDefaults;
+};
+
+// --- Type definitions for searching and sorting the History tab ---
+export type HistorySort = 'newest' | 'oldest' | 'prompt' | 'favorites';
+
+export type HistoryFilters = {
+  query: string;
+  aspectRatio: string; // '' means any
+  model: string;
+  tag: string;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  favoritesOnly: boolean;
+};
+
+// --- Type definition for a history item (a record plus object URLs for display) ---
+export type HistoryItem = HistoryRecord & {
+  generatedImageUrl: string;
+  baseImageUrls: string[];
+};
@@ -0,0 +1,146 @@
+import type { AspectRatio } from '../types';
+import { canvasToBlob } from './mask';
+
+// Outputs within this relative distance of the target ratio are left alone.
+const RATIO_TOLERANCE = 0.01;
+const ENERGY_SAMPLE_SIZE = 128;
+
+export const PRESET_ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3', '21:9'];
+
+/** Returns width / height for a `W:H` string, or NaN when it is not a valid ratio. */
+export const parseAspectRatio = (ratio: string): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : NaN;
+};
+
+export const measureImage = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+export const matchesAspectRatio = (width: number, height: number, ratio: AspectRatio) => {
+  const target = parseAspectRatio(ratio);
+  return Math.abs(width / height - target) / target <= RATIO_TOLERANCE;
+};
+
+/** The largest size with the target ratio that fits inside (width, height). */
+const fitInside = (width: number, height: number, target: number) =>
+  width / height > target
+    ? { width: Math.round(height * target), height }
+    : { width, height: Math.round(width / target) };
+
+/** The smallest size with the target ratio that contains (width, height). */
+const fitAround = (width: number, height: number, target: number) =>
+  width / height > target
+    ? { width, height: Math.round(width / target) }
+    : { width: Math.round(height * target), height };
+
+// Sums gradient magnitude along one axis of a downscaled copy, so the crop
+// window can be slid towards the busiest (most detailed) part of the image.
+const energyProfile = (bitmap: ImageBitmap, axis: 'x' | 'y') => {
+  const scale = Math.min(1, ENERGY_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luminance = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  const profile = new Float64Array(axis === 'x' ? width : height);
+  for (let y = 1; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const energy = Math.abs(luminance(x, y) - luminance(x - 1, y)) + Math.abs(luminance(x, y) - luminance(x, y - 1));
+      profile[axis === 'x' ? x : y] += energy;
+    }
+  }
+  return { profile, scale };
+};
+
+const bestWindowStart = (profile: Float64Array, windowLength: number) => {
+  let sum = 0;
+  for (let i = 0; i < windowLength; i++) sum += profile[i];
+  let best = sum;
+  let bestStart = 0;
+  for (let start = 1; start + windowLength <= profile.length; start++) {
+    sum += profile[start + windowLength - 1] - profile[start - 1];
+    if (sum > best) {
+      best = sum;
+      bestStart = start;
+    }
+  }
+  return bestStart;
+};
+
+/** Crops to the target ratio, keeping the region with the most detail. */
+export const smartCropToRatio = async (blob: Blob, ratio: AspectRatio): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  const size = fitInside(bitmap.width, bitmap.height, parseAspectRatio(ratio));
+  const axis = size.width < bitmap.width ? 'x' : 'y';
+  const { profile, scale } = energyProfile(bitmap, axis);
+  const windowLength = Math.max(1, Math.round((axis === 'x' ? size.width : size.height) * scale));
+  const start = Math.round(bestWindowStart(profile, Math.min(windowLength, profile.length)) / scale);
+  const maxStart = axis === 'x' ? bitmap.width - size.width : bitmap.height - size.height;
+  const offset = Math.min(start, maxStart);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  canvas.getContext('2d')!.drawImage(
+    bitmap,
+    axis === 'x' ? offset : 0, axis === 'y' ? offset : 0, size.width, size.height,
+    0, 0, size.width, size.height,
+  );
+  bitmap.close();
+  return canvasToBlob(canvas);
+};
+
+const averageColor = (bitmap: ImageBitmap) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, 1, 1);
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return `rgb(${r}, ${g}, ${b})`;
+};
+
+/**
+ * Pads the image out to the target ratio, centred on a fill of its average
+ * colour. Also returns a mask that is white over the padding, for outpainting.
+ */
+export const padToRatio = async (blob: Blob, ratio: AspectRatio): Promise<{ image: Blob; mask: Blob }> => {
+  const bitmap = await createImageBitmap(blob);
+  const size = fitAround(bitmap.width, bitmap.height, parseAspectRatio(ratio));
+  const x = Math.round((size.width - bitmap.width) / 2);
+  const y = Math.round((size.height - bitmap.height) / 2);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = averageColor(bitmap);
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.drawImage(bitmap, x, y);
+
+  const maskCanvas = document.createElement('canvas');
+  maskCanvas.width = size.width;
+  maskCanvas.height = size.height;
+  const maskCtx = maskCanvas.getContext('2d')!;
+  maskCtx.fillStyle = '#ffffff';
+  maskCtx.fillRect(0, 0, size.width, size.height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(x, y, bitmap.width, bitmap.height);
+
+  bitmap.close();
+  const [image, mask] = await Promise.all([canvasToBlob(canvas), canvasToBlob(maskCanvas)]);
+  return { image, mask };
+};
@@ -0,0 +1,64 @@
+import type { HistoryFilters, HistoryItem, HistorySort } from '../types';
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  aspectRatio: '',
+  model: '',
+  tag: '',
+  from: '',
+  to: '',
+  favoritesOnly: false,
+};
+
+// Case- and accent-insensitive form used for matching.
+const fold = (text: string) => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// YYYY-MM-DD input values as the first and last millisecond of that local day.
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+/** Tags are trimmed, lower-cased and de-duplicated; empty ones are dropped. */
+export const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase()).filter(Boolean))];
+
+/**
+ * Keeps the items matching every active filter. The query is split into
+ * words, and each word must appear in the prompt, the original or enhanced
+ * prompt, or the tags.
+ */
+export const filterHistory = (items: HistoryItem[], filters: HistoryFilters) => {
+  const terms = fold(filters.query).split(/\s+/).filter(Boolean);
+  const from = filters.from ? startOfDay(filters.from) : -Infinity;
+  const to = filters.to ? endOfDay(filters.to) : Infinity;
+  return items.filter(item => {
+    if (filters.favoritesOnly && !item.favorite) return false;
+    if (filters.aspectRatio && item.aspectRatio !== filters.aspectRatio) return false;
+    if (filters.model && item.model !== filters.model) return false;
+    if (filters.tag && !item.tags?.includes(filters.tag)) return false;
+    if (item.createdAt < from || item.createdAt > to) return false;
+    if (terms.length === 0) return true;
+    const haystack = fold([item.prompt, item.originalPrompt, item.enhancedPrompt, ...(item.tags ?? [])].filter(Boolean).join(' '));
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const sortHistory = (items: HistoryItem[], sort: HistorySort) => {
+  const sorted = [...items];
+  switch (sort) {
+    case 'oldest':
+      return sorted.sort((a, b) => a.createdAt - b.createdAt);
+    case 'prompt':
+      return sorted.sort((a, b) => a.prompt.localeCompare(b.prompt));
+    case 'favorites':
+      return sorted.sort((a, b) => Number(Boolean(b.favorite)) - Number(Boolean(a.favorite)) || b.createdAt - a.createdAt);
+    default:
+      return sorted.sort((a, b) => b.createdAt - a.createdAt);
+  }
+};
+
+/** The distinct values present in history, for the filter dropdowns. */
+export const historyFacets = (items: HistoryItem[]) => ({
+  aspectRatios: [...new Set(items.map(item => item.aspectRatio))].sort(),
+  models: [...new Set(items.map(item => item.model))].sort(),
+  tags: [...new Set(items.flatMap(item => item.tags ?? []))].sort(),
+});
@@ -0,0 +1,101 @@
+import type { DownloadSettings, ImageMetadata } from '../types';
+import { canvasToBlob } from './mask';
+
+const MAX_SLUG_LENGTH = 48;
+
+// Tokens understood by `renderFilename`, listed in the download dialog.
+export const FILENAME_TOKENS = ['{date}', '{time}', '{timestamp}', '{seed}', '{prompt-slug}', '{ratio}', '{model}', '{id}'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+
+/**
+ * Expands a filename template such as `{date}-{prompt-slug}` and appends the
+ * extension. A random seed renders as `random`, other empty tokens are
+ * dropped, and characters that are unsafe in filenames are removed.
+ */
+export const renderFilename = (template: string, metadata: ImageMetadata | undefined, extension: string) => {
+  const date = new Date(metadata?.createdAt ?? Date.now());
+  const values: Record<string, string> = {
+    '{date}': `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    '{time}': `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    '{timestamp}': String(date.getTime()),
+    '{seed}': metadata?.seed || 'random',
+    '{prompt-slug}': slugify(metadata?.prompt ?? ''),
+    '{ratio}': metadata?.aspectRatio.replace(':', 'x') ?? '',
+    '{model}': metadata?.model ?? '',
+    '{id}': metadata?.id ?? '',
+  };
+  const name = FILENAME_TOKENS
+    .reduce((result, token) => result.split(token).join(values[token]), template)
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-_. ]+|[-_. ]+$/g, '');
+  return `${name || 're-imagined'}.${extension}`;
+};
+
+/** Output size for the chosen resize mode, never smaller than 1px. */
+export const resolveOutputSize = (width: number, height: number, settings: DownloadSettings) => {
+  const factor = settings.size === 'long-edge'
+    ? settings.longEdge / Math.max(width, height)
+    : settings.size === 'scale' ? settings.scale / 100 : 1;
+  return { width: Math.max(1, Math.round(width * factor)), height: Math.max(1, Math.round(height * factor)) };
+};
+
+/**
+ * Re-encodes and/or resizes an image for download. When neither the format
+ * nor the size changes the original bytes are returned untouched.
+ */
+export const convertImage = async (blob: Blob, settings: DownloadSettings): Promise<Blob> => {
+  const type = settings.format === 'original' ? blob.type : settings.format;
+  if (type === blob.type && settings.size === 'original') return blob;
+
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = resolveOutputSize(bitmap.width, bitmap.height, settings);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no alpha channel; flatten onto white instead of the browser's black.
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return canvasToBlob(canvas, type, type === 'image/png' ? undefined : settings.quality / 100);
+};
+
+// Clipboards only reliably accept PNG, so anything else is re-encoded at full size.
+const CLIPBOARD_SETTINGS: DownloadSettings = {
+  format: 'image/png',
+  quality: 100,
+  size: 'original',
+  longEdge: 0,
+  scale: 100,
+  filenameTemplate: '',
+};
+
+/**
+ * Copies an image to the clipboard as PNG. The blob is handed over as a
+ * promise so Safari still treats the write as part of the click.
+ */
+export const copyImageToClipboard = async (imageUrl: string) => {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error('This browser cannot copy images to the clipboard.');
+  }
+  const png = fetch(imageUrl)
+    .then(response => response.blob())
+    .then(blob => convertImage(blob, CLIPBOARD_SETTINGS));
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+};
@@ -0,0 +1,367 @@
+import type { GenerationRequest, ImageMetadata } from '../types';
+import { crc32 } from './zip';
+
+// Keyword/property under which the settings are stored as JSON in every format.
+const METADATA_KEYWORD = 're-imaginator';
+const SOFTWARE_NAME = 'Re-Imaginator';
+const XMP_NAMESPACE = 'http://ns.re-imaginator.app/1.0/';
+const XMP_APP1_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_JPEG_SEGMENT_PAYLOAD = 0xffff - 2;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/** File extension for an image MIME type, so downloads are named for what they contain. */
+export const extensionForMimeType = (type: string) => EXTENSIONS[type] ?? 'bin';
+
+export const toImageMetadata = (source: GenerationRequest & { id?: string; createdAt?: number }): ImageMetadata => ({
+  id: source.id,
+  prompt: source.prompt,
+  seed: source.seed,
+  aspectRatio: source.aspectRatio,
+  provider: source.provider,
+  model: source.model,
+  parentId: source.parentId,
+  createdAt: source.createdAt,
+});
+
+const isImageMetadata = (value: unknown): value is ImageMetadata => {
+  const metadata = value as ImageMetadata;
+  return typeof metadata?.prompt === 'string'
+    && typeof metadata.seed === 'string'
+    && typeof metadata.aspectRatio === 'string'
+    && typeof metadata.model === 'string';
+};
+
+const parseMetadata = (json: string): ImageMetadata | null => {
+  try {
+    const parsed = JSON.parse(json);
+    return isImageMetadata(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const ascii = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+const readAscii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// --- PNG: tEXt/iTXt chunks inserted right after IHDR ---
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(ascii(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const textChunk = (keyword: string, text: string) =>
+  pngChunk('tEXt', concatBytes([ascii(keyword), new Uint8Array([0]), ascii(text)]));
+
+// Uncompressed iTXt: keyword, compression flag + method, empty language tag and translated keyword, UTF-8 text.
+const internationalTextChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concatBytes([ascii(keyword), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(text)]));
+
+type PngChunk = { type: string; start: number; end: number; data: Uint8Array };
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) throw new Error('Not a PNG file.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    chunks.push({ type, start: offset, end: offset + 12 + length, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+// Returns the keyword and text of a tEXt or uncompressed iTXt chunk.
+const readPngText = ({ type, data }: PngChunk) => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 0) return null;
+  const keyword = readAscii(data, 0, keywordEnd);
+  if (type === 'tEXt') return { keyword, text: readAscii(data, keywordEnd + 1, data.length - keywordEnd - 1) };
+  if (type !== 'iTXt' || data[keywordEnd + 1] !== 0) return null;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = data.indexOf(0, languageEnd + 1);
+  if (languageEnd < 0 || translatedEnd < 0) return null;
+  return { keyword, text: new TextDecoder().decode(data.subarray(translatedEnd + 1)) };
+};
+
+const embedInPng = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const chunks = readPngChunks(bytes);
+  const ownKeywords = new Set([METADATA_KEYWORD, 'Software', 'Description']);
+  const kept = chunks.filter(chunk => !ownKeywords.has(readPngText(chunk)?.keyword ?? ''));
+  const [header, ...rest] = kept;
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    bytes.subarray(header.start, header.end),
+    textChunk('Software', SOFTWARE_NAME),
+    internationalTextChunk('Description', metadata.prompt),
+    internationalTextChunk(METADATA_KEYWORD, JSON.stringify(metadata)),
+    ...rest.map(chunk => bytes.subarray(chunk.start, chunk.end)),
+  ]);
+};
+
+const readFromPng = (bytes: Uint8Array) => {
+  for (const chunk of readPngChunks(bytes)) {
+    const text = readPngText(chunk);
+    if (text?.keyword === METADATA_KEYWORD) return parseMetadata(text.text);
+  }
+  return null;
+};
+
+// --- XMP packet shared by JPEG (APP1 segment) and WebP ("XMP " chunk) ---
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (value: string) =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const buildXmp = (metadata: ImageMetadata) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:reimaginator="${XMP_NAMESPACE}">
+   <xmp:CreatorTool>${SOFTWARE_NAME}</xmp:CreatorTool>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+   <reimaginator:generation>${escapeXml(JSON.stringify(metadata))}</reimaginator:generation>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const readXmp = (xmp: string) => {
+  const match = xmp.match(/<reimaginator:generation>([\s\S]*?)<\/reimaginator:generation>/);
+  return match ? parseMetadata(unescapeXml(match[1])) : null;
+};
+
+// --- JPEG: XMP in an APP1 segment, placed after SOI and any APP0 (JFIF) segment ---
+type JpegSegment = { marker: number; start: number; end: number };
+
+const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG file.');
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  // Header segments only; scan data starts at SOS (0xDA) and is left untouched.
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+const isXmpSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe1 && readAscii(bytes, segment.start + 4, XMP_APP1_HEADER.length) === XMP_APP1_HEADER;
+
+const embedInJpeg = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const payload = concatBytes([ascii(XMP_APP1_HEADER), new TextEncoder().encode(buildXmp(metadata))]);
+  if (payload.length > MAX_JPEG_SEGMENT_PAYLOAD) return bytes;
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  const segments = readJpegSegments(bytes);
+  const headerEnd = segments.length > 0 ? segments[segments.length - 1].end : 2;
+  const jfif = segments[0]?.marker === 0xe0 ? [segments[0]] : [];
+  const others = segments.slice(jfif.length).filter(candidate => !isXmpSegment(bytes, candidate));
+  return concatBytes([
+    bytes.subarray(0, 2),
+    ...jfif.map(candidate => bytes.subarray(candidate.start, candidate.end)),
+    segment,
+    ...others.map(candidate => bytes.subarray(candidate.start, candidate.end)),
+    bytes.subarray(headerEnd),
+  ]);
+};
+
+const readFromJpeg = (bytes: Uint8Array) => {
+  const segment = readJpegSegments(bytes).find(candidate => isXmpSegment(bytes, candidate));
+  if (!segment) return null;
+  const start = segment.start + 4 + XMP_APP1_HEADER.length;
+  return readXmp(new TextDecoder().decode(bytes.subarray(start, segment.end)));
+};
+
+// --- WebP: XMP in an "XMP " chunk, which needs the extended (VP8X) layout ---
+type RiffChunk = { fourcc: string; start: number; end: number; data: Uint8Array };
+
+const VP8X_ALPHA_FLAG = 0x10;
+const VP8X_XMP_FLAG = 0x04;
+
+const readWebpChunks = (bytes: Uint8Array): RiffChunk[] => {
+  if (readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WEBP') throw new Error('Not a WebP file.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const padded = size + (size % 2);
+    chunks.push({ fourcc: readAscii(bytes, offset, 4), start: offset, end: offset + 8 + padded, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + padded;
+  }
+  return chunks;
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array) => {
+  const padded = data.length + (data.length % 2);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(ascii(fourcc));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// Canvas size and alpha of a simple-format WebP, needed to build its VP8X header.
+const readSimpleWebpInfo = (chunk: RiffChunk) => {
+  const view = new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength);
+  if (chunk.fourcc === 'VP8L') {
+    const bits = view.getUint32(1, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+  }
+  return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, alpha: false };
+};
+
+const vp8xChunk = (width: number, height: number, flags: number) => {
+  const data = new Uint8Array(10);
+  data[0] = flags;
+  [width - 1, height - 1].forEach((value, index) => {
+    data[4 + index * 3] = value & 0xff;
+    data[5 + index * 3] = (value >> 8) & 0xff;
+    data[6 + index * 3] = (value >> 16) & 0xff;
+  });
+  return riffChunk('VP8X', data);
+};
+
+const embedInWebp = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const chunks = readWebpChunks(bytes).filter(chunk => chunk.fourcc !== 'XMP ');
+  const xmp = riffChunk('XMP ', new TextEncoder().encode(buildXmp(metadata)));
+  let header: Uint8Array;
+  let body = chunks;
+  if (chunks[0]?.fourcc === 'VP8X') {
+    header = bytes.slice(chunks[0].start, chunks[0].end);
+    header[8] |= VP8X_XMP_FLAG;
+    body = chunks.slice(1);
+  } else {
+    const image = chunks.find(chunk => chunk.fourcc === 'VP8 ' || chunk.fourcc === 'VP8L');
+    if (!image) throw new Error('Unsupported WebP layout.');
+    const { width, height, alpha } = readSimpleWebpInfo(image);
+    header = vp8xChunk(width, height, VP8X_XMP_FLAG | (alpha ? VP8X_ALPHA_FLAG : 0));
+  }
+  const content = concatBytes([ascii('WEBP'), header, ...body.map(chunk => bytes.subarray(chunk.start, chunk.end)), xmp]);
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(ascii('RIFF'));
+  new DataView(riffHeader.buffer).setUint32(4, content.length, true);
+  return concatBytes([riffHeader, content]);
+};
+
+const readFromWebp = (bytes: Uint8Array) => {
+  const chunk = readWebpChunks(bytes).find(candidate => candidate.fourcc === 'XMP ');
+  return chunk ? readXmp(new TextDecoder().decode(chunk.data)) : null;
+};
+
+// --- EXIF orientation (tag 0x0112 in IFD0 of the TIFF block) ---
+const EXIF_HEADER = 'Exif\0\0';
+const ORIENTATION_TAG = 0x0112;
+
+const readTiffOrientation = (tiff: Uint8Array) => {
+  if (tiff.length < 8) return 1;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = readAscii(tiff, 0, 2) === 'II';
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > tiff.length) return 1;
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) return view.getUint16(entry + 8, littleEndian);
+  }
+  return 1;
+};
+
+// Some writers prefix the TIFF block with "Exif\0\0" even where the format does not require it.
+const stripExifHeader = (data: Uint8Array) =>
+  readAscii(data, 0, EXIF_HEADER.length) === EXIF_HEADER ? data.subarray(EXIF_HEADER.length) : data;
+
+const findExif = (bytes: Uint8Array, type: string): Uint8Array | null => {
+  if (type === 'image/jpeg') {
+    const segment = readJpegSegments(bytes).find(candidate =>
+      candidate.marker === 0xe1 && readAscii(bytes, candidate.start + 4, EXIF_HEADER.length) === EXIF_HEADER);
+    return segment ? bytes.subarray(segment.start + 4 + EXIF_HEADER.length, segment.end) : null;
+  }
+  if (type === 'image/png') {
+    const chunk = readPngChunks(bytes).find(candidate => candidate.type === 'eXIf');
+    return chunk ? stripExifHeader(chunk.data) : null;
+  }
+  if (type === 'image/webp') {
+    const chunk = readWebpChunks(bytes).find(candidate => candidate.fourcc === 'EXIF');
+    return chunk ? stripExifHeader(chunk.data) : null;
+  }
+  return null;
+};
+
+/** EXIF orientation (1-8) of a PNG, JPEG or WebP file; 1 (upright) when absent or unreadable. */
+export const readExifOrientation = (bytes: Uint8Array, type: string): number => {
+  try {
+    const exif = findExif(bytes, type);
+    return exif ? readTiffOrientation(exif) : 1;
+  } catch {
+    return 1;
+  }
+};
+
+// --- Public entry points, dispatching on the blob's MIME type ---
+/**
+ * Returns a copy of the image with the generation settings written into it.
+ * Formats without a metadata writer are returned unchanged.
+ */
+export const embedMetadata = async (blob: Blob, metadata: ImageMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const writers: Record<string, (bytes: Uint8Array, metadata: ImageMetadata) => Uint8Array> = {
+    'image/png': embedInPng,
+    'image/jpeg': embedInJpeg,
+    'image/webp': embedInWebp,
+  };
+  const writer = writers[blob.type];
+  return writer ? new Blob([writer(bytes, metadata)], { type: blob.type }) : blob;
+};
+
+/** Reads settings written by `embedMetadata`, or null when the file has none (or is unreadable). */
+export const readMetadata = async (blob: Blob): Promise<ImageMetadata | null> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const readers: Record<string, (bytes: Uint8Array) => ImageMetadata | null> = {
+    'image/png': readFromPng,
+    'image/jpeg': readFromJpeg,
+    'image/webp': readFromWebp,
+  };
+  try {
+    return readers[blob.type]?.(bytes) ?? null;
+  } catch {
+    return null;
+  }
+};
+
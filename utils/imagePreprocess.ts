@@ -0,0 +1,76 @@
+import type { UploadLimits } from '../types';
+import { extensionForMimeType, readExifOrientation } from './imageMetadata';
+import { canvasToBlob } from './mask';
+
+// Formats every provider accepts as inline image data.
+export const SUPPORTED_UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const QUALITY_STEPS = [0.92, 0.85, 0.75, 0.65, 0.5];
+const SHRINK_FACTOR = 0.75;
+const MIN_DIMENSION = 256;
+
+const renameTo = (file: File, blob: Blob) => {
+  const base = file.name.replace(/\.[^.]+$/, '') || 'image';
+  return new File([blob], `${base}.${extensionForMimeType(blob.type)}`, { type: blob.type, lastModified: file.lastModified });
+};
+
+/**
+ * Validates an uploaded base image and returns a file that is upright, no
+ * larger than `maxDimension` on its long edge and under the byte budget.
+ * Files that already qualify are returned as-is. The steps are:
+ * - bake EXIF orientation into the pixels (models ignore the tag)
+ * - downscale to the maximum dimension
+ * - re-encode, lowering quality and then size until the budget is met
+ * Throws with a user-facing message for unsupported or unreadable files.
+ */
+export const preprocessImage = async (file: File, limits: UploadLimits): Promise<File> => {
+  if (!SUPPORTED_UPLOAD_TYPES.includes(file.type)) {
+    throw new Error(`"${file.name}" is not a supported image. Use PNG, JPEG or WebP.`);
+  }
+
+  const orientation = readExifOrientation(new Uint8Array(await file.arrayBuffer()), file.type);
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`"${file.name}" could not be read. The file may be corrupt.`);
+  }
+
+  try {
+    const maxBytes = limits.maxMegabytes * 1024 * 1024;
+    const scale = Math.min(1, limits.maxDimension / Math.max(bitmap.width, bitmap.height));
+    if (orientation === 1 && scale === 1 && file.size <= maxBytes) return file;
+
+    // PNG stays lossless if it fits; otherwise fall back to WebP, which keeps transparency.
+    const lossyType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp';
+    const attempts: { type: string; quality?: number }[] = [
+      ...(file.type === 'image/png' ? [{ type: 'image/png' }] : []),
+      ...QUALITY_STEPS.map(quality => ({ type: lossyType, quality })),
+    ];
+
+    let width = Math.round(bitmap.width * scale);
+    let height = Math.round(bitmap.height * scale);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    for (;;) {
+      canvas.width = width;
+      canvas.height = height;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      for (const { type, quality } of attempts) {
+        const blob = await canvasToBlob(canvas, type, quality);
+        if (blob.size <= maxBytes) return renameTo(file, blob);
+      }
+      if (Math.max(width, height) <= MIN_DIMENSION) {
+        throw new Error(`"${file.name}" could not be compressed below ${limits.maxMegabytes} MB.`);
+      }
+      width = Math.max(1, Math.round(width * SHRINK_FACTOR));
+      height = Math.max(1, Math.round(height * SHRINK_FACTOR));
+    }
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
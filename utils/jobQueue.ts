@@ -0,0 +1,28 @@
+import type { GenerationJob } from '../types';
+
+export const RATE_WINDOW_MS = 60_000;
+
+/**
+ * How long to wait before `cost` more requests fit in the rolling window,
+ * given the start times of recent requests. A job that needs more requests
+ * than the limit allows waits for the window to empty, so it still runs.
+ */
+export const rateLimitDelay = (startTimes: number[], now: number, perMinute: number, cost: number) => {
+  const recent = startTimes.filter(time => time > now - RATE_WINDOW_MS).sort((a, b) => a - b);
+  const excess = recent.length + cost - perMinute;
+  if (excess <= 0 || recent.length === 0) return 0;
+  const freedBy = recent[Math.min(excess, recent.length) - 1];
+  return Math.max(0, freedBy + RATE_WINDOW_MS - now);
+};
+
+/** Swaps a pending job with the nearest pending job above (-1) or below (1) it. */
+export const moveJob = <T extends GenerationJob>(jobs: T[], id: string, direction: -1 | 1): T[] => {
+  const index = jobs.findIndex(job => job.id === id);
+  if (index < 0 || jobs[index].status !== 'pending') return jobs;
+  let target = index + direction;
+  while (target >= 0 && target < jobs.length && jobs[target].status !== 'pending') target += direction;
+  if (target < 0 || target >= jobs.length) return jobs;
+  const reordered = [...jobs];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
@@ -0,0 +1,82 @@
+import type { HistoryItem } from '../types';
+import { canvasToBlob } from './mask';
+
+const FILMSTRIP_FRAME_HEIGHT = 384;
+const FILMSTRIP_CAPTION_HEIGHT = 72;
+const FILMSTRIP_GAP = 16;
+
+export type LineageNode = {
+  item: HistoryItem;
+  children: LineageNode[];
+};
+
+export type LineageComparePair = {
+  parent: HistoryItem;
+  child: HistoryItem;
+};
+
+/**
+ * Builds one tree per chain. Items whose parent is missing (never linked, or
+ * pruned from history) become roots so nothing disappears from the view.
+ */
+export const buildLineageForest = (items: HistoryItem[]): LineageNode[] => {
+  const nodes = new Map(items.map(item => [item.id, { item, children: [] as LineageNode[] }]));
+  const roots: LineageNode[] = [];
+  const byAge = [...items].sort((a, b) => a.createdAt - b.createdAt);
+  for (const item of byAge) {
+    const node = nodes.get(item.id)!;
+    const parent = item.parentId ? nodes.get(item.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots.reverse();
+};
+
+/** The path from the oldest known ancestor down to `id`, inclusive. */
+export const getAncestorChain = (items: HistoryItem[], id: string): HistoryItem[] => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const chain: HistoryItem[] = [];
+  let current = byId.get(id);
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+};
+
+/** Renders a chain left to right as one PNG, each frame captioned with its step and prompt. */
+export const renderChainFilmstrip = async (chain: HistoryItem[]): Promise<Blob> => {
+  const bitmaps = await Promise.all(chain.map(item => createImageBitmap(item.generatedImage)));
+  const widths = bitmaps.map(bitmap => Math.round(bitmap.width * (FILMSTRIP_FRAME_HEIGHT / bitmap.height)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = widths.reduce((sum, width) => sum + width, 0) + FILMSTRIP_GAP * (chain.length + 1);
+  canvas.height = FILMSTRIP_FRAME_HEIGHT + FILMSTRIP_CAPTION_HEIGHT + FILMSTRIP_GAP * 2;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#0a0a0a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = '500 14px Inter, sans-serif';
+  ctx.textBaseline = 'top';
+
+  let x = FILMSTRIP_GAP;
+  chain.forEach((item, index) => {
+    ctx.drawImage(bitmaps[index], x, FILMSTRIP_GAP, widths[index], FILMSTRIP_FRAME_HEIGHT);
+    bitmaps[index].close();
+
+    const captionTop = FILMSTRIP_GAP * 1.5 + FILMSTRIP_FRAME_HEIGHT;
+    ctx.fillStyle = '#818cf8';
+    ctx.fillText(`Step ${index + 1}`, x, captionTop);
+    ctx.fillStyle = '#a0a0a0';
+    let caption = item.prompt.split('\n')[0];
+    while (caption.length > 1 && ctx.measureText(`${caption}…`).width > widths[index]) {
+      caption = caption.slice(0, -1);
+    }
+    ctx.fillText(caption === item.prompt.split('\n')[0] ? caption : `${caption}…`, x, captionTop + 22);
+    x += widths[index] + FILMSTRIP_GAP;
+  });
+
+  return canvasToBlob(canvas);
+};
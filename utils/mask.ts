@@ -0,0 +1,72 @@
+// --- Mask helpers: masks are black/white PNGs where white marks the region to edit ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode canvas.'))), type, quality);
+  });
+
+/** Converts a painted overlay (any opaque pixel = masked) into a black/white mask. */
+export const overlayToMask = (overlay: HTMLCanvasElement) => {
+  const painted = createCanvas(overlay.width, overlay.height);
+  const paintedCtx = painted.getContext('2d')!;
+  paintedCtx.drawImage(overlay, 0, 0);
+  paintedCtx.globalCompositeOperation = 'source-in';
+  paintedCtx.fillStyle = '#ffffff';
+  paintedCtx.fillRect(0, 0, painted.width, painted.height);
+
+  const mask = createCanvas(overlay.width, overlay.height);
+  const maskCtx = mask.getContext('2d')!;
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(0, 0, mask.width, mask.height);
+  maskCtx.drawImage(painted, 0, 0);
+  return canvasToBlob(mask);
+};
+
+/** Turns mask luminance into alpha, tinted with `color`, drawn onto `target`. */
+export const drawMaskAsOverlay = async (mask: Blob, target: HTMLCanvasElement, color: [number, number, number]) => {
+  const bitmap = await createImageBitmap(mask);
+  const ctx = target.getContext('2d')!;
+  ctx.clearRect(0, 0, target.width, target.height);
+  ctx.drawImage(bitmap, 0, 0, target.width, target.height);
+  bitmap.close();
+  const pixels = ctx.getImageData(0, 0, target.width, target.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const alpha = pixels.data[i];
+    pixels.data[i] = color[0];
+    pixels.data[i + 1] = color[1];
+    pixels.data[i + 2] = color[2];
+    pixels.data[i + 3] = alpha;
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+/**
+ * Pastes the masked region of `generated` over `original`. The result has the
+ * original's dimensions and every unmasked pixel is copied from it untouched.
+ */
+export const compositeWithMask = async (original: Blob, generated: Blob, mask: Blob): Promise<Blob> => {
+  const [originalBitmap, generatedBitmap] = await Promise.all([createImageBitmap(original), createImageBitmap(generated)]);
+  const { width, height } = originalBitmap;
+
+  const edited = createCanvas(width, height);
+  await drawMaskAsOverlay(mask, edited, [0, 0, 0]);
+  const editedCtx = edited.getContext('2d')!;
+  editedCtx.globalCompositeOperation = 'source-in';
+  editedCtx.drawImage(generatedBitmap, 0, 0, width, height);
+
+  const output = createCanvas(width, height);
+  const outputCtx = output.getContext('2d')!;
+  outputCtx.drawImage(originalBitmap, 0, 0);
+  outputCtx.drawImage(edited, 0, 0);
+
+  originalBitmap.close();
+  generatedBitmap.close();
+  return canvasToBlob(output);
+};
@@ -0,0 +1,35 @@
+import type { ModelResponse } from '../types';
+
+export type ResponseKind = 'ok' | 'safety' | 'text-only' | 'empty';
+
+const SAFETY_FINISH_REASONS = new Set([
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'RECITATION',
+]);
+
+/** Tells a safety block apart from a text-only reply and from an empty response. */
+export const classifyResponse = (response: ModelResponse, hasImage: boolean): ResponseKind => {
+  if (hasImage) return 'ok';
+  if (response.blockReason || (response.finishReason && SAFETY_FINISH_REASONS.has(response.finishReason))) {
+    return 'safety';
+  }
+  return response.text.some(text => text.trim()) ? 'text-only' : 'empty';
+};
+
+/** A user-facing sentence explaining why no image came back. */
+export const describeMissingImage = (response: ModelResponse) => {
+  switch (classifyResponse(response, false)) {
+    case 'safety': {
+      const reason = response.blockReasonMessage || response.finishMessage || response.blockReason || response.finishReason;
+      return `The request was blocked by safety filters (${reason}). Try rephrasing the prompt or using different images.`;
+    }
+    case 'text-only':
+      return "The AI replied with text instead of an image. See its response below.";
+    default:
+      return `The AI returned an empty response${response.finishReason ? ` (${response.finishReason})` : ''}. Try a different prompt.`;
+  }
+};
@@ -0,0 +1,13 @@
+const VARIABLE_PATTERN = /\{([\w-]+)\}/g;
+
+/** The distinct `{variable}` names in a template body, in order of first use. */
+export const extractVariables = (body: string): string[] =>
+  [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+/** Fills in `{variable}` placeholders; unfilled ones are left as-is so they stay visible. */
+export const renderTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() || placeholder);
+
+/** Appends the selected style fragments to a prompt. */
+export const composePrompt = (prompt: string, styles: string[]) =>
+  styles.length > 0 ? `${prompt.trim()}\n\nStyle: ${styles.join(', ')}` : prompt;
@@ -0,0 +1,46 @@
+export type DiffSegment = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+// Splits into words and the whitespace between them, so joining gives back the input.
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+/** Word-level diff (longest common subsequence) with adjacent segments of one type merged. */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+};
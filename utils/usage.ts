@@ -0,0 +1,78 @@
+import type { BudgetSettings, GenerationUsage, PriceTable, UsageEntry } from '../types';
+
+export const EMPTY_USAGE: GenerationUsage = {
+  calls: 0,
+  promptTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  latencyMs: 0,
+  requestBytes: 0,
+  responseBytes: 0,
+};
+
+export const addUsage = (a: GenerationUsage, b: GenerationUsage): GenerationUsage => ({
+  calls: a.calls + b.calls,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  latencyMs: a.latencyMs + b.latencyMs,
+  requestBytes: a.requestBytes + b.requestBytes,
+  responseBytes: a.responseBytes + b.responseBytes,
+});
+
+/** Estimated USD cost, or undefined when the model has no price in the table. */
+export const estimateCost = (usage: GenerationUsage, model: string, prices: PriceTable) => {
+  const price = prices[model];
+  if (!price) return undefined;
+  return (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const formatCost = (cost: number | undefined) =>
+  cost === undefined ? '—' : `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+// Local calendar day, as YYYY-MM-DD.
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export type UsageGroup = {
+  key: string;
+  usage: GenerationUsage;
+  cost: number;
+  // Calls whose model has no price, so `cost` undercounts.
+  unpricedCalls: number;
+};
+
+/** Sums entries per key, in order of first appearance (entries are newest first). */
+export const groupUsage = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string, prices: PriceTable): UsageGroup[] => {
+  const groups = new Map<string, UsageGroup>();
+  entries.forEach(entry => {
+    const key = keyOf(entry);
+    const group = groups.get(key) ?? { key, usage: EMPTY_USAGE, cost: 0, unpricedCalls: 0 };
+    const cost = estimateCost(entry, entry.model, prices);
+    groups.set(key, {
+      key,
+      usage: addUsage(group.usage, entry),
+      cost: group.cost + (cost ?? 0),
+      unpricedCalls: group.unpricedCalls + (cost === undefined ? entry.calls : 0),
+    });
+  });
+  return [...groups.values()];
+};
+
+// Midnight today, or midnight on the first of this month.
+export const budgetPeriodStart = (period: BudgetSettings['period'], now: number) => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'month') date.setDate(1);
+  return date.getTime();
+};
+
+/** Estimated spend in the budget's current period. */
+export const spendInPeriod = (entries: UsageEntry[], budget: BudgetSettings, prices: PriceTable, now: number) => {
+  const since = budgetPeriodStart(budget.period, now);
+  return entries
+    .filter(entry => entry.createdAt >= since)
+    .reduce((total, entry) => total + (estimateCost(entry, entry.model, prices) ?? 0), 0);
+};
@@ -1,17 +1,48 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+import { createApiMiddleware } from './server/proxy';
 
-export default defineConfig(({ mode }) => {
+// Serves /api/generate from the dev and preview servers, so the key stays in Node.
+const apiServer = (env: Record<string, string>): Plugin => {
+    const middleware = createApiMiddleware({
+        apiKey: env.GEMINI_API_KEY,
+        baseUrl: env.GEMINI_BASE_URL || undefined,
+        maxBodyMegabytes: env.API_MAX_BODY_MB ? Number(env.API_MAX_BODY_MB) : undefined,
+        requestsPerMinute: env.API_REQUESTS_PER_MINUTE ? Number(env.API_REQUESTS_PER_MINUTE) : undefined,
+    });
+    return {
+        name: 're-imaginator-api',
+        configureServer(server) {
+            server.middlewares.use((req, res, next) => { middleware(req, res, next).catch(next); });
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use((req, res, next) => { middleware(req, res, next).catch(next); });
+        },
+    };
+};
+
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [apiServer(env)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `vite build --ssr` bundles the standalone server and the stub upstream into dist-ssr/.
+      build: isSsrBuild ? {
+        outDir: 'dist-ssr',
+        rollupOptions: {
+          input: {
+            index: 'server/index.ts',
+            stubUpstream: 'server/stubUpstream.ts',
+          },
+        },
+      } : {},
     };
 });